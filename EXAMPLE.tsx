@@ -1,5 +1,6 @@
 import React from "react"
 import { RobertoAI } from "./RobertoAI"
+import { useRobertoVoice } from "./useRobertoVoice"
 
 /**
  * Example Framer Frame using Roberto AI Component
@@ -55,8 +56,8 @@ export default function FramerPage() {
         // Position on the page
         position="bottom-right"
         
-        // Customize how the AI behaves
-        systemPrompt="You are Roberto, a helpful AI assistant. Be friendly, concise, and helpful. Respond in the same language as the user."
+        // Pick a persona from the server's personas.json (empty uses the default)
+        personaId="roberto"
       />
 
       {/* Footer */}
@@ -141,7 +142,9 @@ export function AdvancedExample() {
         apiEndpoint={apiEndpoint}
         buttonColor="#e60000"
         position="bottom-right"
-        systemPrompt="You are a helpful customer support assistant. Answer questions about our products and services."
+        personaId="roberto"
+        onTranscript={({ text, source }) => console.log(`Visitor (${source}):`, text)}
+        onError={({ code, source }) => console.warn(`Roberto ${source} error:`, code)}
       />
 
       {/* Or customize for different use cases */}
@@ -150,9 +153,32 @@ export function AdvancedExample() {
         apiEndpoint={apiEndpoint}
         buttonColor="#0066ff"
         position="bottom-left"
-        systemPrompt="You are a technical support specialist. Help users with technical issues."
+        personaId="sales"
       />
       */}
     </div>
   )
 }
+
+/**
+ * Custom UI
+ *
+ * Use the useRobertoVoice hook to put your own design on top of Roberto:
+ */
+
+export function CustomVoiceUIExample() {
+  const voice = useRobertoVoice({ apiEndpoint: "http://localhost:3000/api/chat" })
+
+  return (
+    <div style={styles.section}>
+      <button onClick={voice.isListening ? voice.stop : voice.start}>
+        {voice.isListening ? "Stop listening" : "Ask Roberto"}
+      </button>
+      <p>Status: {voice.status}</p>
+      <p>
+        {voice.responseText} <em>{voice.interimText}</em>
+      </p>
+      {voice.status === "speaking" && <button onClick={voice.cancel}>Stop talking</button>}
+    </div>
+  )
+}
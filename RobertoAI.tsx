@@ -1,196 +1,471 @@
 import { addPropertyControls, ControlType } from "framer"
-import React, { useState, useEffect, useRef, useCallback } from "react"
-
-interface RobertoAIProps {
+import React, { useState, useEffect, useRef, useMemo, useId } from "react"
+import { InteractionMode, useRobertoVoice } from "./useRobertoVoice"
+import { TranscriptMessage, copyText, downloadTranscript, formatTime } from "./robertoTranscript"
+import { format, messagesFor } from "./robertoI18n"
+import { ThemePreset, resolveTheme, themeVariables, useColorPreferences, useMediaQuery } from "./robertoTheme"
+import { useMicLevel } from "./micLevel"
+import { RobertoCallbacks, emitRobertoEvent } from "./robertoEvents"
+import { PersistenceMode, loadState, saveState, storageKey } from "./robertoStorage"
+import { MarkdownBlock, MarkdownInline, parseMarkdown } from "./robertoFormat"
+import { useWakePhrase } from "./robertoWake"
+import type { RobertoTool } from "./robertoTools"
+
+interface RobertoAIProps extends RobertoCallbacks {
   position?: "bottom-right" | "bottom-left" | "top-right" | "top-left"
+  theme?: ThemePreset
+  // The accent colour: button, waves, your messages and links
   buttonColor?: string
+  surfaceColor?: string
+  textColor?: string
+  radius?: number
+  blur?: number
   apiEndpoint?: string
+  personaId?: string
+  // Ignored unless the server sets ALLOW_CLIENT_SYSTEM_PROMPT=true; prefer personaId
   systemPrompt?: string
   voiceName?: string
+  language?: string
+  streaming?: boolean
+  speakTypedReplies?: boolean
+  bargeIn?: boolean
+  silenceTimeout?: number
+  // "toggle": tap to talk and tap to send, "push-to-talk": hold the button or shortcut while talking,
+  // "hands-free": the microphone stays on for the whole conversation
+  interactionMode?: InteractionMode
+  // Open Roberto when the visitor says wakePhrase, for kiosks and displays. Speech before it never
+  // reaches the backend, but browsers without on-device recognition send it to their own recogniser
+  wakeWord?: boolean
+  wakePhrase?: string
+  // Only listen for the wake phrase where the browser can recognise it on the device
+  wakeOnDeviceOnly?: boolean
+  // Seconds without anything said before a conversation started by the wake phrase closes and is forgotten; 0 keeps it open
+  wakeTimeout?: number
+  tools?: RobertoTool[]
+  builtInTools?: boolean
+  sttEngine?: "browser" | "server"
+  ttsEngine?: "browser" | "server"
+  speechPauses?: boolean
+  requestTimeout?: number
+  maxRetries?: number
+  persist?: PersistenceMode
+  persistMinutes?: number
+  // Key that opens and closes Roberto, e.g. "Space" or "Alt+Shift+R"; empty turns it off
+  keyboardShortcut?: string
+  // Log requests, voices and errors to the console
+  debug?: boolean
+}
+
+// Whether a keydown matches a shortcut such as "Space" or "Ctrl+Alt+R"
+const matchesShortcut = (e: KeyboardEvent, shortcut: string) => {
+  const parts = shortcut.toLowerCase().split('+').map(part => part.trim()).filter(Boolean)
+  const key = parts.pop()
+  if (!key) return false
+
+  const modifiers = { ctrl: e.ctrlKey, alt: e.altKey, shift: e.shiftKey, meta: e.metaKey }
+  if (Object.entries(modifiers).some(([name, pressed]) => parts.includes(name) !== pressed)) return false
+
+  // e.code ("KeyR", "Digit1") still names the key when a modifier changes e.key
+  const code = e.code.toLowerCase()
+  return e.key.toLowerCase() === key || code === key || code === `key${key}` || code === `digit${key}`
+}
+
+// Replies are Markdown. They are rendered as elements, never as HTML, and links
+// the model made up with other schemes (javascript:, data:) are shown as plain text.
+const renderInline = (nodes: MarkdownInline[]): React.ReactNode[] => nodes.map((node, i) => {
+  switch (node.type) {
+    case 'text': return node.text
+    case 'strong': return <strong key={i}>{renderInline(node.children)}</strong>
+    case 'em': return <em key={i}>{renderInline(node.children)}</em>
+    case 'strike': return <del key={i}>{renderInline(node.children)}</del>
+    case 'code': return <code key={i}>{node.text}</code>
+    case 'link':
+      if (!node.href) return <React.Fragment key={i}>{renderInline(node.children)}</React.Fragment>
+      // Links to other sites open in a new tab so the conversation stays open
+      return /^https?:/i.test(node.href)
+        ? <a key={i} href={node.href} target="_blank" rel="noopener noreferrer">{renderInline(node.children)}</a>
+        : <a key={i} href={node.href}>{renderInline(node.children)}</a>
+  }
+})
+
+const renderBlock = (block: MarkdownBlock, i: number) => {
+  switch (block.type) {
+    case 'paragraph': return <p key={i}>{renderInline(block.children)}</p>
+    case 'heading': return <p key={i} className="heading" role="heading" aria-level={Math.min(block.level + 2, 6)}>{renderInline(block.children)}</p>
+    case 'quote': return <blockquote key={i}>{renderInline(block.children)}</blockquote>
+    case 'code': return <pre key={i}><code>{block.text}</code></pre>
+    case 'rule': return <hr key={i} />
+    case 'list': {
+      const items = block.items.map((item, j) => <li key={j}>{renderInline(item)}</li>)
+      return block.ordered ? <ol key={i} start={block.start}>{items}</ol> : <ul key={i}>{items}</ul>
+    }
+    case 'table':
+      return (
+        <div key={i} className="table-scroll">
+          <table>
+            <thead><tr>{block.header.map((cell, j) => <th key={j}>{renderInline(cell)}</th>)}</tr></thead>
+            <tbody>
+              {block.rows.map((row, j) => <tr key={j}>{row.map((cell, k) => <td key={k}>{renderInline(cell)}</td>)}</tr>)}
+            </tbody>
+          </table>
+        </div>
+      )
+  }
+}
+
+const ReplyText = ({ text }: { text: string }) => {
+  const blocks = useMemo(() => parseMarkdown(text), [text])
+  return <div className="markdown">{blocks.map(renderBlock)}</div>
 }
 
+const FOCUSABLE = 'button:not([disabled]), input:not([disabled]), a[href], [tabindex]:not([tabindex="-1"])'
+
 export function RobertoAI({
   position = "bottom-right",
-  buttonColor = "#e60000",
+  theme = "light",
+  buttonColor,
+  surfaceColor,
+  textColor,
+  radius,
+  blur,
   apiEndpoint = "http://localhost:3000/api/chat",
-  systemPrompt = "You are Roberto, a helpful AI assistant. Respond concisely and helpfully.",
-  voiceName = ""
+  personaId = "",
+  systemPrompt,
+  voiceName = "",
+  language = "auto",
+  streaming = true,
+  speakTypedReplies = false,
+  bargeIn = true,
+  silenceTimeout = 1200,
+  interactionMode = "hands-free",
+  wakeWord = false,
+  wakePhrase = "Hey Roberto",
+  wakeOnDeviceOnly = false,
+  wakeTimeout = 30,
+  tools,
+  builtInTools = true,
+  sttEngine = "browser",
+  ttsEngine = "browser",
+  speechPauses = false,
+  requestTimeout = 20000,
+  maxRetries = 2,
+  persist = "session",
+  persistMinutes = 30,
+  keyboardShortcut = "Space",
+  debug = false,
+  onOpen,
+  onClose,
+  ...callbacks
 }: RobertoAIProps = {}) {
-  const [isListening, setIsListening] = useState(false)
-  const [responseText, setResponseText] = useState("")
-  const [isProcessing, setIsProcessing] = useState(false)
-  const recognitionRef = useRef<any>(null)
-  const recognitionActive = useRef(false)
-  const synthRef = useRef<any>(null)
-  const requestInFlightRef = useRef(false)
-
-  // Function to speak text using Web Speech API
-  const speakResponse = useCallback((text: string) => {
-    if (typeof window !== 'undefined' && 'speechSynthesis' in window) {
-      // Cancel any ongoing speech
-      window.speechSynthesis.cancel()
-      
-      const utterance = new SpeechSynthesisUtterance(text)
-      utterance.rate = 1
-      utterance.pitch = 1
-      utterance.volume = 1
-      
-      // Set voice if specified
-      if (voiceName) {
-        const voices = window.speechSynthesis.getVoices()
-        const selectedVoice = voices.find(v => v.name === voiceName)
-        if (selectedVoice) {
-          utterance.voice = selectedVoice
-        }
+  const voice = useRobertoVoice({
+    apiEndpoint,
+    personaId,
+    systemPrompt,
+    voiceName,
+    language,
+    streaming,
+    bargeIn,
+    silenceTimeout,
+    interactionMode,
+    tools,
+    builtInTools,
+    sttEngine,
+    ttsEngine,
+    speechPauses,
+    requestTimeout,
+    maxRetries,
+    persist,
+    persistMinutes,
+    debug,
+    ...callbacks,
+  })
+  const [isOpen, setIsOpen] = useState(false)
+  const [inputMode, setInputMode] = useState<'voice' | 'text'>('voice')
+  const [typedText, setTypedText] = useState("")
+  const [speakReplies, setSpeakReplies] = useState(speakTypedReplies)
+  const [copiedId, setCopiedId] = useState<string | null>(null)
+  // Push-to-talk: the button or shortcut is held down
+  const [holding, setHolding] = useState(false)
+  // Opened by the wake phrase rather than by the visitor tapping
+  const [wokenUp, setWokenUp] = useState(false)
+  const textInputRef = useRef<HTMLInputElement>(null)
+  const overlayRef = useRef<HTMLDivElement>(null)
+  const dialogId = useId()
+  const transcriptRef = useRef<HTMLDivElement>(null)
+  // Follow new messages unless the visitor scrolled up to read earlier ones
+  const followTranscriptRef = useRef(true)
+  const isProcessing = voice.status === 'thinking'
+  const t = useMemo(() => messagesFor(voice.language), [voice.language])
+  const colorPreferences = useColorPreferences()
+  const themeStyle = themeVariables(resolveTheme(theme, colorPreferences, {
+    accent: buttonColor,
+    surface: surfaceColor,
+    text: textColor,
+    radius,
+    blur,
+  })) as React.CSSProperties
+  const reducedMotion = useMediaQuery('(prefers-reduced-motion: reduce)')
+
+  // The rings and waves follow the microphone while listening and pulse while Roberto talks
+  const waveState = voice.status === 'speaking'
+    ? 'speaking'
+    : voice.isListening && voice.status === 'listening' ? 'listening' : 'idle'
+
+  // Written straight to the overlay every frame instead of going through React state
+  useMicLevel(isOpen && voice.isListening && !reducedMotion, (level) => {
+    overlayRef.current?.style.setProperty('--roberto-level', level.toFixed(3))
+  })
+
+  const pushToTalk = interactionMode === 'push-to-talk'
+
+  const beginListening = () => {
+    voice.start()
+    setInputMode('voice')
+    setIsOpen(true)
+  }
+
+  // Tapping the button (or the shortcut). In hands-free mode it opens and closes Roberto;
+  // in the other modes the overlay stays open and each tap starts or sends a turn.
+  const toggleListening = (e: React.MouseEvent) => {
+    e.stopPropagation()
+    if (!voice.speechSupported) {
+      // No speech recognition (Firefox, many in-app browsers): fall back to typing
+      if (isOpen) {
+        close()
+      } else {
+        setInputMode('text')
+        setIsOpen(true)
       }
-      
-      window.speechSynthesis.speak(utterance)
+      return
     }
-  }, [voiceName])
-
-  // Function to get AI response from backend
-  const getAIResponse = useCallback(async (text: string) => {
-    if (!text.trim()) return ""
-    try {
-      setIsProcessing(true)
-      
-      // Ensure API endpoint has https:// protocol
-      let endpoint = apiEndpoint
-      if (!endpoint.startsWith('http://') && !endpoint.startsWith('https://')) {
-        endpoint = 'https://' + endpoint
-      }
-      
-      console.log('Calling API endpoint:', endpoint)
-      
-      const response = await fetch(endpoint, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          message: text,
-          systemPrompt: systemPrompt,
-        }),
-        mode: 'cors',
-        credentials: 'omit',
-      })
-      
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}))
-        console.error('API Error:', errorData)
-        throw new Error(`API returned status ${response.status}`)
-      }
-      
-      const data = await response.json()
-      return data.response || "I couldn't process that request."
-    } catch (error) {
-      console.error('Error getting AI response:', error)
-      return "Sorry, I'm having trouble connecting to the AI service. Error: " + (error as Error).message
-    } finally {
-      setIsProcessing(false)
+
+    // A pointer press was already handled by startHold and endHold. Keyboard clicks have no detail.
+    if (pushToTalk && e.detail > 0) return
+
+    if (isOpen && inputMode === 'text') {
+      close()
+    } else if (interactionMode !== 'hands-free' && isOpen) {
+      if (voice.isListening) voice.endTurn()
+      else voice.start()
+    } else if (voice.isListening) {
+      close()
+    } else {
+      beginListening()
     }
-  }, [apiEndpoint, systemPrompt])
+  }
 
-  // Initialize speech recognition
-  useEffect(() => {
-    if (typeof window !== 'undefined') {
-      // @ts-ignore
-      const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition
-      if (SpeechRecognition) {
-        const recognition = new SpeechRecognition()
-        recognition.continuous = true
-        recognition.interimResults = true
-        recognition.lang = navigator.language || 'en-US'
-
-        recognition.onresult = async (event: any) => {
-          const transcript = Array.from(event.results)
-            .map((result: any) => result[0])
-            .map((result) => result.transcript)
-            .join('')
-          
-          setResponseText(transcript)
-
-          // Only process final results and prevent duplicate requests
-          if (event.results[event.results.length - 1].isFinal && !requestInFlightRef.current) {
-            requestInFlightRef.current = true
-            try {
-              const aiResponse = await getAIResponse(transcript)
-              setResponseText(prev => `${prev}\n\nAI: ${aiResponse}`)
-              // Speak the AI response
-              speakResponse(aiResponse)
-            } finally {
-              requestInFlightRef.current = false
-            }
-          }
-        }
+  // Push-to-talk with a mouse, pen or finger. Capturing the pointer means the release
+  // still counts when it happens off the button.
+  const startHold = (e: React.PointerEvent<HTMLButtonElement>) => {
+    if (!pushToTalk || !voice.speechSupported || e.button !== 0 || isProcessing) return
+    e.currentTarget.setPointerCapture(e.pointerId)
+    setHolding(true)
+    beginListening()
+  }
 
-        recognition.onerror = (event: any) => {
-          console.error('Speech recognition error', event.error)
-          setIsListening(false)
-          setIsProcessing(false)
-        }
+  const endHold = () => {
+    if (!holding) return
+    setHolding(false)
+    voice.endTurn()
+  }
 
-        recognitionRef.current = recognition
-      }
-      
-      // Load available voices
-      if ('speechSynthesis' in window) {
-        window.speechSynthesis.onvoiceschanged = () => {
-          const voices = window.speechSynthesis.getVoices()
-          console.log('Available voices:', voices.map(v => v.name))
-        }
-      }
+  // Switch between talking and typing without closing the overlay
+  const switchInputMode = (e: React.MouseEvent) => {
+    e.stopPropagation()
+    if (inputMode === 'voice') {
+      voice.stop()
+      setInputMode('text')
+    } else if (voice.speechSupported) {
+      voice.start()
+      setInputMode('voice')
     }
+  }
 
+  const submitTypedText = (e: React.FormEvent) => {
+    e.preventDefault()
+    const text = typedText.trim()
+    if (!text || isProcessing) return
+
+    setTypedText("")
+    voice.send(text, { speak: speakReplies })
+  }
+
+  // The overlay and typing preferences belong to the conversation: kept with it, forgotten with it.
+  // Declared before the restore below so the first render doesn't overwrite what is stored.
+  const storeKey = storageKey(personaId)
+  const hasConversation = voice.messages.length > 0
+  const widgetRestoredRef = useRef(false)
+  useEffect(() => {
+    if (!widgetRestoredRef.current) return
+    saveState(persist, storeKey, hasConversation
+      ? { open: isOpen, inputMode, speakReplies }
+      : { open: undefined, inputMode: undefined, speakReplies: undefined })
+  }, [isOpen, inputMode, speakReplies, hasConversation, persist, storeKey])
+
+  // Reopen the overlay as it was on the previous page. The microphone stays off until the
+  // visitor turns it on again, since browsers don't allow that without a tap.
+  useEffect(() => {
+    const saved = loadState(persist, storeKey, persistMinutes)
+    if (saved?.inputMode) setInputMode(saved.inputMode)
+    if (saved?.speakReplies !== undefined) setSpeakReplies(saved.speakReplies)
+    if (saved?.open) setIsOpen(true)
+    widgetRestoredRef.current = true
+  }, [persist, storeKey, persistMinutes])
+
+  const forget = () => {
+    voice.forget()
+    setSpeakReplies(speakTypedReplies)
+  }
+
+  // Report opening and closing, however it happened (button, shortcut, Escape)
+  const wasOpenRef = useRef(isOpen)
+  useEffect(() => {
+    if (wasOpenRef.current === isOpen) return
+    wasOpenRef.current = isOpen
+    if (isOpen) emitRobertoEvent('open', { mode: inputMode }, { onOpen })
+    else emitRobertoEvent('close', {}, { onClose })
+  }, [isOpen])
+
+  // Move focus into the dialog when it opens, and back where it was when it closes
+  useEffect(() => {
+    if (!isOpen) return
+    const previous = document.activeElement as HTMLElement | null
+    overlayRef.current?.focus()
     return () => {
-      if (recognitionRef.current) {
-        recognitionRef.current.stop()
-      }
+      if (previous && previous !== document.body && previous.isConnected) previous.focus()
     }
-  }, [getAIResponse, speakResponse])
+  }, [isOpen])
 
-  const toggleListening = (e: React.MouseEvent) => {
-    e.stopPropagation()
-    if (!recognitionRef.current) {
-      console.error('Speech recognition not supported')
-      return
+  // Focus the text box whenever the typing view opens
+  useEffect(() => {
+    if (isOpen && inputMode === 'text') {
+      textInputRef.current?.focus()
     }
+  }, [isOpen, inputMode])
 
-    if (isListening) {
-      recognitionRef.current.stop()
-      recognitionActive.current = false
-      setIsListening(false)
-    } else {
-      // Reset state and prevent requests during previous session
-      requestInFlightRef.current = false
-      setResponseText("Listening...")
-      recognitionRef.current.start()
-      recognitionActive.current = true
-      setIsListening(true)
+  useEffect(() => {
+    const transcript = transcriptRef.current
+    if (transcript && followTranscriptRef.current) {
+      transcript.scrollTop = transcript.scrollHeight
+    }
+  }, [voice.messages, voice.interimText])
+
+  const onTranscriptScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    const { scrollTop, scrollHeight, clientHeight } = e.currentTarget
+    followTranscriptRef.current = scrollHeight - scrollTop - clientHeight < 40
+  }
+
+  const copyMessage = async (message: TranscriptMessage) => {
+    if (await copyText(message.text)) {
+      setCopiedId(message.id)
+      setTimeout(() => setCopiedId(id => (id === message.id ? null : id)), 1500)
     }
   }
 
+  const close = () => {
+    voice.cancel()
+    setIsOpen(false)
+    setWokenUp(false)
+  }
+
+  // Waits for the wake phrase while the overlay is closed. Whatever followed it in the
+  // same breath is the first question; otherwise Roberto listens for one.
+  const wakeState = useWakePhrase({
+    enabled: wakeWord && !isOpen,
+    phrase: wakePhrase,
+    language: voice.language,
+    onDeviceOnly: wakeOnDeviceOnly,
+    onWake: (rest) => {
+      setWokenUp(true)
+      setInputMode('voice')
+      setIsOpen(true)
+      if (interactionMode === 'hands-free' || (interactionMode === 'toggle' && !rest)) voice.start()
+      if (rest) voice.send(rest)
+    },
+  })
+  const waitingForWake = wakeState === 'listening'
+
+  // Nobody should be left with an open microphone after walking away: once a conversation
+  // started by the wake phrase has been quiet for wakeTimeout, go back to waiting for it.
+  // The conversation is forgotten too (here, in storage and on the server), so the next
+  // person to say the phrase starts afresh instead of seeing the last visitor's transcript.
+  useEffect(() => {
+    if (!wokenUp || !isOpen || wakeTimeout <= 0) return
+    if (voice.status === 'thinking' || voice.status === 'speaking') return
+    const timer = setTimeout(() => {
+      close()
+      forget()
+    }, wakeTimeout * 1000)
+    return () => clearTimeout(timer)
+  }, [wokenUp, isOpen, wakeTimeout, voice.status, voice.interimText, voice.messages.length, typedText, holding])
+
   const closeOverlay = (e: React.MouseEvent) => {
     e.stopPropagation()
-    if (isListening && recognitionRef.current) {
-      recognitionRef.current.stop()
-      recognitionActive.current = false
+    close()
+  }
+
+  // Escape closes the dialog, and Tab cycles through its controls
+  const onOverlayKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      e.stopPropagation()
+      close()
+      return
+    }
+    if (e.key !== 'Tab' || !overlayRef.current) return
+
+    const focusable = Array.from(overlayRef.current.querySelectorAll<HTMLElement>(FOCUSABLE))
+      .filter(element => element.offsetParent !== null)
+    if (focusable.length === 0) return
+    const first = focusable[0]
+    const last = focusable[focusable.length - 1]
+
+    if (e.shiftKey && (document.activeElement === first || document.activeElement === overlayRef.current)) {
+      e.preventDefault()
+      last.focus()
+    } else if (!e.shiftKey && document.activeElement === last) {
+      e.preventDefault()
+      first.focus()
     }
-    setIsListening(false)
   }
 
-  // Handle keyboard shortcut (Space bar)
+  // Keyboard shortcut. A plain key only counts when nothing on the page has focus,
+  // so it never gets in the way of typing or of the page's own controls.
   useEffect(() => {
+    if (!keyboardShortcut) return
+    const plainKey = !/(ctrl|alt|shift|meta)\+/i.test(keyboardShortcut)
+
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (e.code === 'Space' && e.target === document.body) {
-        e.preventDefault()
+      if (!matchesShortcut(e, keyboardShortcut)) return
+      if (plainKey && e.target !== document.body) return
+      e.preventDefault()
+      if (!pushToTalk || !voice.speechSupported) {
         toggleListening(e as any)
+      } else if (!e.repeat && !holding && !isProcessing) {
+        setHolding(true)
+        beginListening()
       }
     }
 
+    // Letting go of any key in the shortcut, or leaving the page, ends a held turn
+    const handleKeyUp = () => endHold()
+
     document.addEventListener('keydown', handleKeyDown)
-    return () => document.removeEventListener('keydown', handleKeyDown)
-  }, [isListening])
+    document.addEventListener('keyup', handleKeyUp)
+    window.addEventListener('blur', handleKeyUp)
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown)
+      document.removeEventListener('keyup', handleKeyUp)
+      window.removeEventListener('blur', handleKeyUp)
+    }
+  }, [keyboardShortcut, interactionMode, holding, isProcessing, voice.isListening, voice.speechSupported, isOpen, inputMode])
+
+  const statusText = {
+    idle: inputMode === 'text' ? t.idleText : pushToTalk ? t.holdToTalk : t.idleVoice,
+    listening: interactionMode === 'toggle' ? t.tapToSend : pushToTalk ? t.releaseToSend : t.listening,
+    thinking: t.thinking,
+    speaking: t.speaking,
+    error: t.error,
+  }[voice.status]
 
   // Position mapping
   const getPositionStyles = () => {
@@ -211,20 +486,32 @@ export function RobertoAI({
     }
   }
 
+  // The wake hint sits next to the button, on the side facing into the page
+  const wakeHintPlacement: React.CSSProperties = {
+    [position.startsWith('top') ? 'top' : 'bottom']: 'calc(100% + 12px)',
+    [position.endsWith('left') ? 'left' : 'right']: 0,
+  }
+
   return (
-    <div style={getPositionStyles()}>
+    <div style={{ ...getPositionStyles(), ...themeStyle }} lang={voice.language} data-roberto-widget>
       <button 
         onClick={toggleListening}
-        className={`voice-button ${isListening ? 'active' : ''}`}
-        style={{
-          ...buttonStyle,
-          backgroundColor: buttonColor,
-          boxShadow: `0 4px 20px ${buttonColor}4d`,
-        }}
-        aria-label="Toggle voice assistant"
+        onPointerDown={startHold}
+        onPointerUp={endHold}
+        onPointerCancel={endHold}
+        onContextMenu={pushToTalk ? (e) => e.preventDefault() : undefined}
+        className={`voice-button mode-${interactionMode} ${isOpen ? 'active' : ''} ${voice.isListening ? 'listening' : ''} ${holding ? 'holding' : ''} ${waitingForWake ? 'waiting-for-wake' : ''}`}
+        style={buttonStyle}
+        aria-label={t.toggleAssistant}
+        aria-expanded={isOpen}
+        aria-controls={dialogId}
+        aria-haspopup="dialog"
+        aria-keyshortcuts={keyboardShortcut || undefined}
+        aria-describedby={waitingForWake ? `${dialogId}-wake` : undefined}
         disabled={isProcessing}
       >
         <svg 
+          aria-hidden="true"
           className="mic-icon" 
           viewBox="0 0 24 24" 
           fill="none" 
@@ -234,24 +521,38 @@ export function RobertoAI({
           strokeLinejoin="round"
           style={iconStyle}
         >
-          <rect x="9" y="2" width="6" height="12" rx="3" fill="white" stroke="none" />
-          <path d="M19 10v2a7 7 0 0 1-14 0v-2" stroke="white" fill="none" />
-          <line x1="12" y1="19" x2="12" y2="22" stroke="white" />
-          <line x1="8" y1="22" x2="16" y2="22" stroke="white" />
-          <path d="M7 8s-1-1-1-4 1-4 1-4" stroke="rgba(255,255,255,0.6)" strokeWidth="1.5" />
-          <path d="M17 8s1-1 1-4-1-4-1-4" stroke="rgba(255,255,255,0.6)" strokeWidth="1.5" />
-          <path d="M5 10s-2-2-2-6 2-6 2-6" stroke="rgba(255,255,255,0.4)" strokeWidth="1" />
-          <path d="M19 10s2-2 2-6-2-6-2-6" stroke="rgba(255,255,255,0.4)" strokeWidth="1" />
+          <rect x="9" y="2" width="6" height="12" rx="3" fill="currentColor" stroke="none" />
+          <path d="M19 10v2a7 7 0 0 1-14 0v-2" stroke="currentColor" fill="none" />
+          <line x1="12" y1="19" x2="12" y2="22" stroke="currentColor" />
+          <line x1="8" y1="22" x2="16" y2="22" stroke="currentColor" />
+          <path d="M7 8s-1-1-1-4 1-4 1-4" stroke="currentColor" strokeOpacity="0.6" strokeWidth="1.5" />
+          <path d="M17 8s1-1 1-4-1-4-1-4" stroke="currentColor" strokeOpacity="0.6" strokeWidth="1.5" />
+          <path d="M5 10s-2-2-2-6 2-6 2-6" stroke="currentColor" strokeOpacity="0.4" strokeWidth="1" />
+          <path d="M19 10s2-2 2-6-2-6-2-6" stroke="currentColor" strokeOpacity="0.4" strokeWidth="1" />
         </svg>
         {isProcessing && <div className="pulse-ring"></div>}
+        {waitingForWake && (
+          <span id={`${dialogId}-wake`} className="wake-hint" style={{ ...wakeHintStyle, ...wakeHintPlacement }}>
+            <span className="wake-dot" aria-hidden="true"></span>
+            {format(t.wakeListening, { phrase: wakePhrase })}
+          </span>
+        )}
       </button>
 
       <div 
-        className={`voice-overlay ${isListening ? 'active' : ''}`} 
+        ref={overlayRef}
+        id={dialogId}
+        className={`voice-overlay ${isOpen ? 'active' : ''}`} 
         style={overlayStyle}
         onClick={(e) => e.stopPropagation()}
+        onKeyDown={onOverlayKeyDown}
+        role="dialog"
+        aria-modal="true"
+        aria-label={t.dialogLabel}
+        aria-hidden={!isOpen}
+        tabIndex={-1}
       >
-        <div className="wave-container" style={waveContainerStyle}>
+        <div className="wave-container" style={waveContainerStyle} aria-hidden="true">
           {[1, 2, 3, 4, 5].map((i) => (
             <div 
               key={`wave-line-${i}`}
@@ -260,52 +561,232 @@ export function RobertoAI({
                 ...waveLineStyle,
                 top: `${15 + (i * 15)}%`,
                 animationDelay: `${i * 0.5}s`,
-                opacity: 0.8 - (i * 0.1)
+                opacity: 0.8 - (i * 0.1),
+                ...(waveState === 'listening' && {
+                  scale: '1 calc(1 + var(--roberto-level, 0) * 6)',
+                }),
+                ...(waveState === 'speaking' && {
+                  animation: `${waveLineStyle.animation}, wave-talk 0.5s ease-in-out infinite alternate`,
+                }),
               }}
             />
           ))}
         </div>
 
-        <div className="wave-center" style={waveCenterStyle}>
-          {[1, 2, 3, 4, 5].map((i) => (
-            <div 
-              key={`wave-circle-${i}`}
-              className="wave-circle"
-              style={{
-                ...waveCircleStyle,
-                animationDelay: `${i * 0.4}s`,
-                opacity: 1 - (i * 0.2),
-                borderWidth: i === 1 ? '2px' : '1px'
-              }}
-            />
-          ))}
+        <div className="wave-center" style={waveCenterStyle} aria-hidden="true">
+          {[1, 2, 3, 4, 5].map((i) => {
+            const ringSize = 40 + i * 50
+            return (
+              <div 
+                key={`wave-circle-${i}`}
+                className="wave-circle"
+                style={{
+                  ...waveCircleStyle,
+                  animationDelay: `${i * 0.4}s`,
+                  opacity: 1 - (i * 0.2),
+                  borderWidth: i === 1 ? '2px' : '1px',
+                  ...(waveState === 'listening' && {
+                    animation: 'none',
+                    width: `calc(${ringSize}px * (0.5 + var(--roberto-level, 0)))`,
+                    height: `calc(${ringSize}px * (0.5 + var(--roberto-level, 0)))`,
+                    transition: 'width 0.1s linear, height 0.1s linear',
+                  }),
+                  ...(waveState === 'speaking' && {
+                    animation: 'wave-speak 0.8s ease-in-out infinite alternate',
+                    width: `${ringSize}px`,
+                    height: `${ringSize}px`,
+                  }),
+                }}
+              />
+            )
+          })}
         </div>
 
         <div className="status-indicator" style={statusContainerStyle}>
-          <div className="status-dot" style={statusDotStyle}></div>
-          <div className="status-text" style={statusTextStyle}>
-            {isProcessing ? "Processing..." : "Listening..."}
+          <div className="status-dot" style={statusDotStyle} aria-hidden="true"></div>
+          <div className="status-text" style={statusTextStyle} role="status">
+            {statusText}
           </div>
+          {(inputMode === 'voice' || voice.speechSupported) && (
+            <button
+              className="mode-btn"
+              onClick={switchInputMode}
+              style={closeButtonStyle}
+              aria-label={inputMode === 'voice' ? t.switchToTyping : t.switchToVoice}
+            >
+              {inputMode === 'voice' ? (
+                <svg aria-hidden="true" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                  <rect x="2" y="6" width="20" height="12" rx="2"></rect>
+                  <line x1="6" y1="10" x2="6" y2="10"></line>
+                  <line x1="10" y1="10" x2="10" y2="10"></line>
+                  <line x1="14" y1="10" x2="14" y2="10"></line>
+                  <line x1="18" y1="10" x2="18" y2="10"></line>
+                  <line x1="7" y1="14" x2="17" y2="14"></line>
+                </svg>
+              ) : (
+                <svg aria-hidden="true" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                  <rect x="9" y="2" width="6" height="12" rx="3"></rect>
+                  <path d="M19 10v2a7 7 0 0 1-14 0v-2"></path>
+                  <line x1="12" y1="19" x2="12" y2="22"></line>
+                </svg>
+              )}
+            </button>
+          )}
           <button 
             className="close-btn"
             onClick={closeOverlay}
             style={closeButtonStyle}
-            aria-label="Close voice assistant"
+            aria-label={t.closeAssistant}
           >
-            <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <svg aria-hidden="true" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
               <line x1="18" y1="6" x2="6" y2="18"></line>
               <line x1="6" y1="6" x2="18" y2="18"></line>
             </svg>
           </button>
         </div>
 
-        <div className="sponken-response" style={responseContainerStyle}>
-          <p style={responseTextStyle}>
-            <span>{responseText || "Speak now..."}</span>
-          </p>
+        <div
+          className="sponken-response"
+          style={{ ...responseContainerStyle, bottom: inputMode === 'text' ? '7rem' : '2rem' }}
+        >
+          {voice.messages.length > 0 && (
+            <div className="transcript-actions" style={transcriptActionsStyle}>
+              <button type="button" onClick={() => downloadTranscript(voice.messages, 'text', voice.language)} style={transcriptActionStyle}>
+                {t.exportText}
+              </button>
+              <button type="button" onClick={() => downloadTranscript(voice.messages, 'json', voice.language)} style={transcriptActionStyle}>
+                {t.exportJson}
+              </button>
+              <button type="button" onClick={voice.clear} style={transcriptActionStyle}>
+                {t.clear}
+              </button>
+              <button type="button" onClick={forget} style={transcriptActionStyle}>
+                {t.forget}
+              </button>
+            </div>
+          )}
+
+          <div
+            ref={transcriptRef}
+            className="transcript"
+            style={transcriptStyle}
+            onScroll={onTranscriptScroll}
+            role="log"
+            aria-live="polite"
+            aria-label={t.conversationLabel}
+            // Announce replies once they are complete, not word by word while streaming
+            aria-busy={voice.messages.some(message => message.status === 'pending')}
+            tabIndex={0}
+          >
+            {voice.messages.length === 0 && !voice.interimText && (
+              <p style={emptyTranscriptStyle}>
+                {voice.persona?.greeting || (inputMode === 'text' ? t.askAnything : t.speakNow)}
+              </p>
+            )}
+
+            {voice.messages.map((message) => {
+              const fromUser = message.role === 'user'
+              return (
+                <div
+                  key={message.id}
+                  className={`message ${message.role} ${message.status}`}
+                  style={{ ...messageStyle, alignSelf: fromUser ? 'flex-end' : 'flex-start' }}
+                >
+                  <div
+                    style={{
+                      ...bubbleStyle,
+                      ...(fromUser ? userBubbleStyle : assistantBubbleStyle),
+                      ...(message.status === 'error' && errorBubbleStyle),
+                    }}
+                  >
+                    {message.role === 'assistant' && message.text
+                      ? <ReplyText text={message.text} />
+                      : message.text || (message.status === 'pending' && (
+                        <span className="typing-dots" aria-label={t.robertoThinking}>
+                          <span></span><span></span><span></span>
+                        </span>
+                      ))}
+                  </div>
+
+                  {message.sources && message.sources.length > 0 && (
+                    <div className="sources" style={sourcesStyle}>
+                      <span>{t.sources}</span>
+                      {message.sources.map((source) => (
+                        <a
+                          key={source.url}
+                          href={source.url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          style={sourceLinkStyle}
+                        >
+                          {source.title}
+                        </a>
+                      ))}
+                    </div>
+                  )}
+
+                  <div style={{ ...messageMetaStyle, justifyContent: fromUser ? 'flex-end' : 'flex-start' }}>
+                    <time dateTime={new Date(message.createdAt).toISOString()}>{formatTime(message.createdAt)}</time>
+                    {message.text && message.status !== 'pending' && (
+                      <button
+                        type="button"
+                        className="copy-btn"
+                        onClick={() => copyMessage(message)}
+                        style={copyButtonStyle}
+                      >
+                        {copiedId === message.id ? t.copied : t.copy}
+                      </button>
+                    )}
+                  </div>
+                </div>
+              )
+            })}
+
+            {voice.interimText && (
+              <div className="message user pending" style={{ ...messageStyle, alignSelf: 'flex-end' }} aria-hidden="true">
+                <div className="interim-text" style={{ ...bubbleStyle, ...interimBubbleStyle }}>
+                  {voice.interimText}
+                </div>
+              </div>
+            )}
+          </div>
         </div>
 
-        <div className="particles" style={particlesStyle}></div>
+        {inputMode === 'text' && (
+          <form className="text-input-form" style={textFormStyle} onSubmit={submitTypedText}>
+            <input
+              ref={textInputRef}
+              type="text"
+              value={typedText}
+              onChange={(e) => setTypedText(e.target.value)}
+              placeholder={t.typeQuestion}
+              aria-label={t.messageInput}
+              style={textInputStyle}
+            />
+            <button
+              type="button"
+              className="speak-toggle"
+              onClick={() => setSpeakReplies(on => !on)}
+              style={{ ...speakToggleStyle, color: speakReplies ? 'var(--roberto-accent)' : 'var(--roberto-muted)' }}
+              aria-pressed={speakReplies}
+              aria-label={t.speakReplies}
+            >
+              <svg aria-hidden="true" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <polygon points="11 5 6 9 2 9 2 15 6 15 11 19 11 5"></polygon>
+                {speakReplies && <path d="M15.54 8.46a5 5 0 0 1 0 7.07M19.07 4.93a10 10 0 0 1 0 14.14"></path>}
+              </svg>
+            </button>
+            <button
+              type="submit"
+              disabled={isProcessing || !typedText.trim()}
+              style={sendButtonStyle}
+            >
+              {t.send}
+            </button>
+          </form>
+        )}
+
+        <div className="particles" style={particlesStyle} aria-hidden="true"></div>
       </div>
 
       <style jsx global>{`
@@ -327,7 +808,7 @@ export function RobertoAI({
           position: absolute;
           width: 60px;
           height: 60px;
-          border: 3px solid #e60000;
+          border: 3px solid var(--roberto-accent);
           border-radius: 50%;
           animation: pulse-ring 1.5s ease-out infinite;
           pointer-events: none;
@@ -340,10 +821,10 @@ export function RobertoAI({
 
         @keyframes pulse-glow {
           0%, 100% { 
-            box-shadow: 0 4px 20px rgba(230, 0, 0, 0.3); 
+            box-shadow: 0 4px 20px color-mix(in srgb, var(--roberto-accent) 30%, transparent); 
           }
           50% { 
-            box-shadow: 0 8px 40px rgba(230, 0, 0, 0.6); 
+            box-shadow: 0 8px 40px color-mix(in srgb, var(--roberto-accent) 60%, transparent); 
           }
         }
 
@@ -396,6 +877,16 @@ export function RobertoAI({
           }
         }
 
+        @keyframes wave-speak {
+          from { scale: 0.85; }
+          to { scale: 1.1; }
+        }
+
+        @keyframes wave-talk {
+          from { scale: 1 1; }
+          to { scale: 1 4; }
+        }
+
         @keyframes particle-float {
           0% { transform: translateY(0px) rotate(0deg); }
           100% { transform: translateY(-20px) rotate(5deg); }
@@ -423,13 +914,13 @@ export function RobertoAI({
           right: 2rem;
           width: 72px;
           height: 72px;
-          background: #e60000;
+          background: var(--roberto-accent);
           border: none;
           border-radius: 50%;
           cursor: pointer;
           z-index: 1000;
           transition: all 0.3s cubic-bezier(0.4, 0, 0.2, 1);
-          box-shadow: 0 4px 20px rgba(230, 0, 0, 0.3);
+          box-shadow: 0 4px 20px color-mix(in srgb, var(--roberto-accent) 30%, transparent);
           border: 3px solid rgba(255, 255, 255, 0.2);
           display: flex;
           align-items: center;
@@ -438,7 +929,7 @@ export function RobertoAI({
 
         .voice-button:hover {
           transform: scale(1.1);
-          box-shadow: 0 6px 30px rgba(230, 0, 0, 0.4);
+          box-shadow: 0 6px 30px color-mix(in srgb, var(--roberto-accent) 40%, transparent);
         }
 
         .voice-button.active {
@@ -446,6 +937,44 @@ export function RobertoAI({
           transform: scale(1.1);
         }
 
+        /* Outside hands-free mode the button only pulses while the microphone is on */
+        .voice-button.active:not(.mode-hands-free):not(.listening),
+        .voice-button.active:not(.mode-hands-free):not(.listening)::before,
+        .voice-button.active:not(.mode-hands-free):not(.listening) .mic-icon {
+          animation: none;
+        }
+
+        .voice-button.mode-push-to-talk {
+          touch-action: none;
+          user-select: none;
+          -webkit-user-select: none;
+          -webkit-touch-callout: none;
+        }
+
+        .voice-button.holding {
+          transform: scale(0.95);
+          box-shadow: 0 0 0 8px color-mix(in srgb, var(--roberto-accent) 25%, transparent),
+            0 4px 20px color-mix(in srgb, var(--roberto-accent) 40%, transparent);
+        }
+
+        /* Waiting for the wake phrase: a slow breathing ring and a hint saying what to say */
+        .voice-button.waiting-for-wake::after {
+          content: "";
+          position: absolute;
+          inset: -6px;
+          border-radius: 50%;
+          border: 2px solid color-mix(in srgb, var(--roberto-accent) 50%, transparent);
+          animation: pulse-dot 3s ease-in-out infinite;
+        }
+
+        .wake-dot {
+          width: 8px;
+          height: 8px;
+          border-radius: 50%;
+          background: var(--roberto-accent);
+          animation: pulse-dot 2s infinite;
+        }
+
         .voice-button:disabled {
           opacity: 0.7;
           cursor: not-allowed;
@@ -456,7 +985,7 @@ export function RobertoAI({
           position: absolute;
           inset: -10px;
           border-radius: 50%;
-          background: radial-gradient(circle, rgba(230, 0, 0, 0.3) 0%, transparent 70%);
+          background: radial-gradient(circle, color-mix(in srgb, var(--roberto-accent) 30%, transparent) 0%, transparent 70%);
           opacity: 0;
           transition: opacity 0.3s ease;
         }
@@ -485,7 +1014,7 @@ export function RobertoAI({
         .voice-overlay {
           position: fixed;
           inset: 0;
-          background: rgba(0, 0, 0, 0.1);
+          background: var(--roberto-backdrop);
           backdrop-filter: blur(8px);
           z-index: 500;
           opacity: 0;
@@ -505,12 +1034,12 @@ export function RobertoAI({
           top: 2rem;
           left: 50%;
           transform: translateX(-50%);
-          background: rgba(255, 255, 255, 0.9);
-          backdrop-filter: blur(20px);
+          background: var(--roberto-surface);
+          backdrop-filter: blur(var(--roberto-blur));
           padding: 1rem 2rem;
-          border-radius: 50px;
-          box-shadow: 0 8px 32px rgba(0, 0, 0, 0.1);
-          border: 1px solid rgba(255, 255, 255, 0.2);
+          border-radius: var(--roberto-radius);
+          box-shadow: var(--roberto-shadow);
+          border: 1px solid var(--roberto-border);
           pointer-events: auto;
           display: flex;
           align-items: center;
@@ -521,27 +1050,137 @@ export function RobertoAI({
         .sponken-response {
           position: absolute;
           top: 9rem;
+          bottom: 2rem;
           left: 50%;
-          max-width: 100%;
+          width: min(600px, 90%);
           transform: translateX(-50%);
-          background: rgba(255, 255, 255, 0.9);
-          backdrop-filter: blur(20px);
-          padding: 1rem 2rem;
-          border-radius: 50px;
-          box-shadow: 0 8px 32px rgba(0, 0, 0, 0.1);
+          background: var(--roberto-surface);
+          backdrop-filter: blur(var(--roberto-blur));
+          padding: 1rem;
+          border-radius: var(--roberto-radius);
+          box-shadow: var(--roberto-shadow);
           pointer-events: auto;
           display: flex;
-          align-items: center;
-          gap: 1rem;
+          flex-direction: column;
+          gap: 0.5rem;
           z-index: 501;
-          max-width: 80%;
-          text-align: center;
         }
 
+        .transcript {
+          scrollbar-width: thin;
+        }
+
+        .markdown > * {
+          margin: 0;
+        }
+
+        .markdown > * + * {
+          margin-top: 0.5rem;
+        }
+
+        .markdown .heading {
+          font-weight: 600;
+        }
+
+        .markdown ul,
+        .markdown ol {
+          padding-left: 1.25rem;
+        }
+
+        .markdown blockquote {
+          padding-left: 0.75rem;
+          border-left: 3px solid var(--roberto-accent);
+        }
+
+        .markdown code {
+          font-family: ui-monospace, SFMono-Regular, Menlo, monospace;
+          font-size: 0.875em;
+          padding: 0.1em 0.3em;
+          border-radius: 4px;
+          background: var(--roberto-hover);
+        }
+
+        .markdown pre {
+          padding: 0.6rem 0.75rem;
+          border-radius: 8px;
+          background: var(--roberto-hover);
+          overflow-x: auto;
+          white-space: pre;
+        }
+
+        .markdown pre code {
+          padding: 0;
+          background: none;
+        }
+
+        .markdown a {
+          color: var(--roberto-accent);
+          text-decoration: underline;
+        }
+
+        .markdown hr {
+          border: none;
+          border-top: 1px solid var(--roberto-border);
+        }
+
+        .markdown .table-scroll {
+          overflow-x: auto;
+        }
+
+        .markdown table {
+          border-collapse: collapse;
+          font-size: 0.9em;
+        }
+
+        .markdown th,
+        .markdown td {
+          padding: 0.25rem 0.5rem;
+          border: 1px solid var(--roberto-border);
+          text-align: left;
+          white-space: normal;
+        }
+
+        .message .copy-btn {
+          opacity: 0;
+          transition: opacity 0.2s ease;
+        }
+
+        .message:hover .copy-btn,
+        .message .copy-btn:focus-visible {
+          opacity: 1;
+        }
+
+        .transcript-actions button:hover,
+        .copy-btn:hover {
+          background: var(--roberto-hover);
+        }
+
+        @keyframes typing-dot {
+          0%, 80%, 100% { opacity: 0.3; transform: translateY(0); }
+          40% { opacity: 1; transform: translateY(-3px); }
+        }
+
+        .typing-dots {
+          display: inline-flex;
+          gap: 4px;
+          padding: 0.25rem 0;
+        }
+
+        .typing-dots span {
+          width: 6px;
+          height: 6px;
+          border-radius: 50%;
+          background: var(--roberto-muted);
+          animation: typing-dot 1.2s ease-in-out infinite;
+        }
+
+        .typing-dots span:nth-child(2) { animation-delay: 0.15s; }
+        .typing-dots span:nth-child(3) { animation-delay: 0.3s; }
+
         .status-dot {
           width: 8px;
           height: 8px;
-          background: #e60000;
+          background: var(--roberto-accent);
           border-radius: 50%;
           position: relative;
           animation: pulse-dot 2s infinite;
@@ -552,12 +1191,12 @@ export function RobertoAI({
           position: absolute;
           inset: -4px;
           border-radius: 50%;
-          border: 2px solid #e60000;
+          border: 2px solid var(--roberto-accent);
           animation: ping 2s infinite;
         }
 
         .status-text {
-          color: #333;
+          color: var(--roberto-text);
           font-weight: 600;
           font-size: 0.95rem;
         }
@@ -569,14 +1208,21 @@ export function RobertoAI({
           padding: 0.25rem;
           border-radius: 50%;
           transition: background 0.2s ease;
-          color: #666;
+          color: var(--roberto-muted);
           display: flex;
           align-items: center;
           justify-content: center;
         }
 
-        .close-btn:hover {
-          background: rgba(0, 0, 0, 0.1);
+        .close-btn:hover,
+        .mode-btn:hover,
+        .speak-toggle:hover {
+          background: var(--roberto-hover);
+        }
+
+        .text-input-form button[type="submit"]:disabled {
+          opacity: 0.5;
+          cursor: not-allowed;
         }
 
         .wave-line {
@@ -587,9 +1233,9 @@ export function RobertoAI({
           background: linear-gradient(
             90deg,
             transparent 0%,
-            rgba(230, 0, 0, 0.6) 25%,
-            rgba(255, 51, 51, 0.8) 50%,
-            rgba(230, 0, 0, 0.6) 75%,
+            color-mix(in srgb, var(--roberto-accent) 60%, transparent) 25%,
+            color-mix(in srgb, var(--roberto-accent-soft) 80%, transparent) 50%,
+            color-mix(in srgb, var(--roberto-accent) 60%, transparent) 75%,
             transparent 100%
           );
           animation: wave-flow 4s ease-in-out infinite;
@@ -611,7 +1257,7 @@ export function RobertoAI({
 
         .wave-circle {
           position: absolute;
-          border: 2px solid #e60000;
+          border: 2px solid var(--roberto-accent);
           border-radius: 50%;
           animation: wave-ripple 3s ease-out infinite;
           top: 50%;
@@ -624,17 +1270,17 @@ export function RobertoAI({
           inset: 0;
           background: radial-gradient(
               circle at 30% 20%,
-              rgba(230, 0, 0, 0.1) 0%,
+              color-mix(in srgb, var(--roberto-accent) 10%, transparent) 0%,
               transparent 50%
             ),
             radial-gradient(
               circle at 70% 80%,
-              rgba(255, 51, 51, 0.08) 0%,
+              color-mix(in srgb, var(--roberto-accent-soft) 8%, transparent) 0%,
               transparent 50%
             ),
             radial-gradient(
               circle at 20% 70%,
-              rgba(230, 0, 0, 0.06) 0%,
+              color-mix(in srgb, var(--roberto-accent) 6%, transparent) 0%,
               transparent 50%
             );
           animation: particle-float 6s ease-in-out infinite alternate;
@@ -659,10 +1305,15 @@ export function RobertoAI({
             padding: 0.75rem 1.5rem;
           }
 
+          .text-input-form {
+            width: calc(100% - 2rem);
+            bottom: 1rem;
+          }
+
           .sponken-response {
-            top: 1rem;
-            padding: 0.75rem 1.5rem;
-            width: calc(100% - 3rem);
+            top: 10rem;
+            padding: 0.75rem;
+            width: calc(100% - 2rem);
             font-size: 0.9rem;
           }
 
@@ -675,6 +1326,52 @@ export function RobertoAI({
         .voice-overlay.active .wave-container {
           animation: container-breathe 4s ease-in-out infinite;
         }
+
+        .voice-overlay:focus {
+          outline: none;
+        }
+
+        [data-roberto-widget] button:focus-visible,
+        [data-roberto-widget] a:focus-visible,
+        .transcript:focus-visible,
+        .text-input-form:focus-within {
+          outline: 2px solid var(--roberto-accent);
+          outline-offset: 2px;
+        }
+
+        @media (prefers-reduced-motion: reduce) {
+          [data-roberto-widget] *,
+          [data-roberto-widget] *::before,
+          [data-roberto-widget] *::after {
+            animation: none !important;
+            transition: none !important;
+          }
+
+          .wave-line,
+          .wave-circle {
+            display: none;
+          }
+        }
+
+        @media (forced-colors: active) {
+          .voice-button,
+          .status-indicator,
+          .sponken-response,
+          .text-input-form,
+          .message > div:first-child {
+            border: 1px solid CanvasText;
+          }
+
+          .status-dot {
+            background: Highlight;
+          }
+
+          .wave-container,
+          .wave-center,
+          .particles {
+            display: none;
+          }
+        }
       `}</style>
     </div>
   )
@@ -693,14 +1390,14 @@ const buttonStyle: React.CSSProperties = {
   width: '72px',
   height: '72px',
   borderRadius: '50%',
-  backgroundColor: '#e60000',
+  backgroundColor: 'var(--roberto-accent)',
   border: '3px solid rgba(255, 255, 255, 0.2)',
-  color: 'white',
+  color: 'var(--roberto-on-accent)',
   cursor: 'pointer',
   display: 'flex',
   alignItems: 'center',
   justifyContent: 'center',
-  boxShadow: '0 4px 20px rgba(230, 0, 0, 0.3)',
+  boxShadow: '0 4px 20px color-mix(in srgb, var(--roberto-accent) 30%, transparent)',
   transition: 'all 0.3s cubic-bezier(0.4, 0, 0.2, 1)',
   zIndex: 1001,
 }
@@ -712,10 +1409,27 @@ const iconStyle: React.CSSProperties = {
   transition: 'all 0.3s cubic-bezier(0.4, 0, 0.2, 1)',
 }
 
+const wakeHintStyle: React.CSSProperties = {
+  position: 'absolute',
+  display: 'flex',
+  alignItems: 'center',
+  gap: '0.5rem',
+  padding: '0.4rem 0.75rem',
+  borderRadius: '999px',
+  backgroundColor: 'var(--roberto-surface)',
+  border: '1px solid var(--roberto-border)',
+  boxShadow: 'var(--roberto-shadow)',
+  color: 'var(--roberto-text)',
+  fontSize: '0.8rem',
+  fontWeight: 600,
+  whiteSpace: 'nowrap',
+  pointerEvents: 'none',
+}
+
 const overlayStyle: React.CSSProperties = {
   position: 'fixed',
   inset: 0,
-  backgroundColor: 'rgba(0, 0, 0, 0.1)',
+  backgroundColor: 'var(--roberto-backdrop)',
   backdropFilter: 'blur(8px)',
   zIndex: 500,
   opacity: 0,
@@ -729,12 +1443,12 @@ const statusContainerStyle: React.CSSProperties = {
   top: '2rem',
   left: '50%',
   transform: 'translateX(-50%)',
-  background: 'rgba(255, 255, 255, 0.9)',
-  backdropFilter: 'blur(20px)',
+  background: 'var(--roberto-surface)',
+  backdropFilter: 'blur(var(--roberto-blur))',
   padding: '1rem 2rem',
-  borderRadius: '50px',
-  boxShadow: '0 8px 32px rgba(0, 0, 0, 0.1)',
-  border: '1px solid rgba(255, 255, 255, 0.2)',
+  borderRadius: 'var(--roberto-radius)',
+  boxShadow: 'var(--roberto-shadow)',
+  border: '1px solid var(--roberto-border)',
   display: 'flex',
   alignItems: 'center',
   gap: '1rem',
@@ -745,20 +1459,20 @@ const statusDotStyle: React.CSSProperties = {
   width: '8px',
   height: '8px',
   borderRadius: '50%',
-  backgroundColor: '#e60000',
+  backgroundColor: 'var(--roberto-accent)',
   position: 'relative',
 }
 
 const statusTextStyle: React.CSSProperties = {
   fontSize: '0.95rem',
-  color: '#333',
+  color: 'var(--roberto-text)',
   fontWeight: 600,
 }
 
 const closeButtonStyle: React.CSSProperties = {
   background: 'none',
   border: 'none',
-  color: '#666',
+  color: 'var(--roberto-muted)',
   cursor: 'pointer',
   padding: '0.25rem',
   borderRadius: '50%',
@@ -771,26 +1485,174 @@ const closeButtonStyle: React.CSSProperties = {
 const responseContainerStyle: React.CSSProperties = {
   position: 'absolute',
   top: '9rem',
+  bottom: '2rem',
   left: '50%',
   transform: 'translateX(-50%)',
-  maxWidth: '80%',
-  background: 'rgba(255, 255, 255, 0.9)',
-  backdropFilter: 'blur(20px)',
-  padding: '1rem 2rem',
-  borderRadius: '50px',
-  boxShadow: '0 8px 32px rgba(0, 0, 0, 0.1)',
+  width: 'min(600px, 90%)',
+  background: 'var(--roberto-surface)',
+  backdropFilter: 'blur(var(--roberto-blur))',
+  padding: '1rem',
+  borderRadius: 'var(--roberto-radius)',
+  boxShadow: 'var(--roberto-shadow)',
   display: 'flex',
-  alignItems: 'center',
-  gap: '1rem',
+  flexDirection: 'column',
+  gap: '0.5rem',
   zIndex: 501,
+}
+
+const transcriptActionsStyle: React.CSSProperties = {
+  display: 'flex',
+  justifyContent: 'flex-end',
+  gap: '0.25rem',
+}
+
+const transcriptActionStyle: React.CSSProperties = {
+  background: 'none',
+  border: 'none',
+  borderRadius: '50px',
+  padding: '0.25rem 0.75rem',
+  fontSize: '0.8rem',
+  fontWeight: 600,
+  color: 'var(--roberto-muted)',
+  cursor: 'pointer',
+}
+
+const transcriptStyle: React.CSSProperties = {
+  flex: 1,
+  minHeight: 0,
+  overflowY: 'auto',
+  display: 'flex',
+  flexDirection: 'column',
+  gap: '0.75rem',
+  padding: '0.25rem',
+}
+
+const emptyTranscriptStyle: React.CSSProperties = {
+  margin: 'auto',
+  fontSize: '1rem',
+  color: 'var(--roberto-text)',
   textAlign: 'center',
 }
 
-const responseTextStyle: React.CSSProperties = {
-  margin: 0,
+const messageStyle: React.CSSProperties = {
+  maxWidth: '85%',
+  display: 'flex',
+  flexDirection: 'column',
+  gap: '0.25rem',
+}
+
+const bubbleStyle: React.CSSProperties = {
+  padding: '0.6rem 1rem',
+  borderRadius: 'calc(var(--roberto-radius) * 0.75)',
   fontSize: '1rem',
-  color: '#333',
   lineHeight: 1.5,
+  whiteSpace: 'pre-wrap',
+  overflowWrap: 'anywhere',
+}
+
+const userBubbleStyle: React.CSSProperties = {
+  backgroundColor: 'var(--roberto-accent)',
+  color: 'var(--roberto-on-accent)',
+}
+
+const assistantBubbleStyle: React.CSSProperties = {
+  backgroundColor: 'var(--roberto-subtle)',
+  color: 'var(--roberto-text)',
+}
+
+const errorBubbleStyle: React.CSSProperties = {
+  backgroundColor: 'color-mix(in srgb, #d93025 10%, transparent)',
+  color: '#d93025',
+  border: '1px solid color-mix(in srgb, #d93025 30%, transparent)',
+}
+
+const interimBubbleStyle: React.CSSProperties = {
+  background: 'transparent',
+  border: '1px dashed var(--roberto-accent)',
+  color: 'var(--roberto-muted)',
+  fontStyle: 'italic',
+}
+
+const messageMetaStyle: React.CSSProperties = {
+  display: 'flex',
+  alignItems: 'center',
+  gap: '0.5rem',
+  fontSize: '0.75rem',
+  color: 'var(--roberto-muted)',
+}
+
+const copyButtonStyle: React.CSSProperties = {
+  background: 'none',
+  border: 'none',
+  borderRadius: '50px',
+  padding: '0.1rem 0.5rem',
+  fontSize: '0.75rem',
+  color: 'var(--roberto-muted)',
+  cursor: 'pointer',
+}
+
+const sourcesStyle: React.CSSProperties = {
+  display: 'flex',
+  flexWrap: 'wrap',
+  gap: '0.25rem 0.75rem',
+  fontSize: '0.85rem',
+  color: 'var(--roberto-muted)',
+}
+
+const sourceLinkStyle: React.CSSProperties = {
+  color: 'var(--roberto-accent)',
+  textDecoration: 'underline',
+  fontWeight: 500,
+}
+
+const textFormStyle: React.CSSProperties = {
+  position: 'absolute',
+  bottom: '2rem',
+  left: '50%',
+  transform: 'translateX(-50%)',
+  width: 'min(600px, 90%)',
+  background: 'var(--roberto-surface)',
+  backdropFilter: 'blur(var(--roberto-blur))',
+  padding: '0.5rem 0.5rem 0.5rem 1.5rem',
+  borderRadius: 'var(--roberto-radius)',
+  boxShadow: 'var(--roberto-shadow)',
+  display: 'flex',
+  alignItems: 'center',
+  gap: '0.5rem',
+  zIndex: 501,
+}
+
+const textInputStyle: React.CSSProperties = {
+  flex: 1,
+  minWidth: 0,
+  border: 'none',
+  outline: 'none',
+  background: 'transparent',
+  fontSize: '1rem',
+  color: 'var(--roberto-text)',
+}
+
+const speakToggleStyle: React.CSSProperties = {
+  background: 'none',
+  border: 'none',
+  cursor: 'pointer',
+  padding: '0.5rem',
+  borderRadius: '50%',
+  transition: 'background 0.2s ease',
+  display: 'flex',
+  alignItems: 'center',
+  justifyContent: 'center',
+}
+
+const sendButtonStyle: React.CSSProperties = {
+  border: 'none',
+  backgroundColor: 'var(--roberto-accent)',
+  borderRadius: '50px',
+  padding: '0.6rem 1.25rem',
+  color: 'var(--roberto-on-accent)',
+  fontWeight: 600,
+  fontSize: '0.95rem',
+  cursor: 'pointer',
 }
 
 const waveContainerStyle: React.CSSProperties = {
@@ -815,14 +1677,14 @@ const waveLineStyle: React.CSSProperties = {
   left: 0,
   right: 0,
   height: '2px',
-  background: 'linear-gradient(90deg, transparent 0%, rgba(230, 0, 0, 0.6) 25%, rgba(255, 51, 51, 0.8) 50%, rgba(230, 0, 0, 0.6) 75%, transparent 100%)',
+  background: 'linear-gradient(90deg, transparent 0%, color-mix(in srgb, var(--roberto-accent) 60%, transparent) 25%, color-mix(in srgb, var(--roberto-accent-soft) 80%, transparent) 50%, color-mix(in srgb, var(--roberto-accent) 60%, transparent) 75%, transparent 100%)',
   animation: 'wave-flow 4s ease-in-out infinite',
   transformOrigin: 'left center',
 }
 
 const waveCircleStyle: React.CSSProperties = {
   position: 'absolute',
-  border: '2px solid #e60000',
+  border: '2px solid var(--roberto-accent)',
   borderRadius: '50%',
   animation: 'wave-ripple 3s ease-out infinite',
   top: '50%',
@@ -833,7 +1695,7 @@ const waveCircleStyle: React.CSSProperties = {
 const particlesStyle: React.CSSProperties = {
   position: 'absolute',
   inset: 0,
-  background: 'radial-gradient(circle at 30% 20%, rgba(230, 0, 0, 0.1) 0%, transparent 50%), radial-gradient(circle at 70% 80%, rgba(255, 51, 51, 0.08) 0%, transparent 50%), radial-gradient(circle at 20% 70%, rgba(230, 0, 0, 0.06) 0%, transparent 50%)',
+  background: 'radial-gradient(circle at 30% 20%, color-mix(in srgb, var(--roberto-accent) 10%, transparent) 0%, transparent 50%), radial-gradient(circle at 70% 80%, color-mix(in srgb, var(--roberto-accent-soft) 8%, transparent) 0%, transparent 50%), radial-gradient(circle at 20% 70%, color-mix(in srgb, var(--roberto-accent) 6%, transparent) 0%, transparent 50%)',
   animation: 'particle-float 6s ease-in-out infinite alternate',
   zIndex: -1,
 }
@@ -847,21 +1709,56 @@ addPropertyControls(RobertoAI, {
     optionTitles: ["Bottom Right", "Bottom Left", "Top Right", "Top Left"],
     defaultValue: "bottom-right",
   },
+  theme: {
+    type: ControlType.Enum,
+    title: "Theme",
+    options: ["light", "dark", "auto"],
+    optionTitles: ["Light", "Dark", "Auto (visitor's setting)"],
+    defaultValue: "light",
+  },
   buttonColor: {
     type: ControlType.Color,
-    title: "Button Color",
+    title: "Accent Color",
     defaultValue: "#e60000",
   },
+  surfaceColor: {
+    type: ControlType.Color,
+    title: "Surface Color",
+    optional: true,
+  },
+  textColor: {
+    type: ControlType.Color,
+    title: "Text Color",
+    optional: true,
+  },
+  radius: {
+    type: ControlType.Number,
+    title: "Corner Radius",
+    defaultValue: 24,
+    min: 0,
+    max: 40,
+    step: 1,
+    unit: "px",
+  },
+  blur: {
+    type: ControlType.Number,
+    title: "Background Blur",
+    defaultValue: 20,
+    min: 0,
+    max: 40,
+    step: 1,
+    unit: "px",
+  },
   apiEndpoint: {
     type: ControlType.String,
     title: "API Endpoint",
     defaultValue: "http://localhost:3000/api/chat",
     displaySegmentedControl: false,
   },
-  systemPrompt: {
+  personaId: {
     type: ControlType.String,
-    title: "System Prompt",
-    defaultValue: "You are Roberto, a helpful AI assistant. Respond concisely and helpfully.",
+    title: "Persona",
+    placeholder: "Server default",
     displaySegmentedControl: false,
   },
   voiceName: {
@@ -870,4 +1767,160 @@ addPropertyControls(RobertoAI, {
     placeholder: "Default system voice",
     displaySegmentedControl: false,
   },
+  language: {
+    type: ControlType.String,
+    title: "Language",
+    defaultValue: "auto",
+    placeholder: "auto, en-US, es-ES...",
+    displaySegmentedControl: false,
+  },
+  streaming: {
+    type: ControlType.Boolean,
+    title: "Stream Replies",
+    defaultValue: true,
+  },
+  speakTypedReplies: {
+    type: ControlType.Boolean,
+    title: "Speak Typed Replies",
+    defaultValue: false,
+  },
+  bargeIn: {
+    type: ControlType.Boolean,
+    title: "Barge-in",
+    defaultValue: true,
+  },
+  silenceTimeout: {
+    type: ControlType.Number,
+    title: "Silence Timeout",
+    defaultValue: 1200,
+    min: 300,
+    max: 5000,
+    step: 100,
+    unit: "ms",
+  },
+  interactionMode: {
+    type: ControlType.Enum,
+    title: "Interaction",
+    options: ["toggle", "push-to-talk", "hands-free"],
+    optionTitles: ["Tap to Talk", "Push to Talk", "Hands-Free"],
+    defaultValue: "hands-free",
+  },
+  wakeWord: {
+    type: ControlType.Boolean,
+    title: "Wake Phrase",
+    defaultValue: false,
+  },
+  wakePhrase: {
+    type: ControlType.String,
+    title: "Phrase",
+    defaultValue: "Hey Roberto",
+    placeholder: "Hey Roberto",
+    hidden: (props: any) => !props.wakeWord,
+  },
+  wakeOnDeviceOnly: {
+    type: ControlType.Boolean,
+    title: "On Device Only",
+    defaultValue: false,
+    hidden: (props: any) => !props.wakeWord,
+  },
+  wakeTimeout: {
+    type: ControlType.Number,
+    title: "Wake Timeout",
+    defaultValue: 30,
+    min: 0,
+    max: 300,
+    step: 5,
+    unit: "s",
+    hidden: (props: any) => !props.wakeWord,
+  },
+  builtInTools: {
+    type: ControlType.Boolean,
+    title: "Page Actions",
+    defaultValue: true,
+  },
+  sttEngine: {
+    type: ControlType.Enum,
+    title: "Speech Recognition",
+    options: ["browser", "server"],
+    optionTitles: ["Browser", "Server"],
+    defaultValue: "browser",
+  },
+  ttsEngine: {
+    type: ControlType.Enum,
+    title: "Speech Output",
+    options: ["browser", "server"],
+    optionTitles: ["Browser", "Server"],
+    defaultValue: "browser",
+  },
+  speechPauses: {
+    type: ControlType.Boolean,
+    title: "Pause Between Points",
+    defaultValue: false,
+  },
+  requestTimeout: {
+    type: ControlType.Number,
+    title: "Request Timeout",
+    defaultValue: 20000,
+    min: 0,
+    max: 120000,
+    step: 1000,
+    unit: "ms",
+  },
+  maxRetries: {
+    type: ControlType.Number,
+    title: "Retries",
+    defaultValue: 2,
+    min: 0,
+    max: 5,
+    step: 1,
+  },
+  persist: {
+    type: ControlType.Enum,
+    title: "Remember",
+    options: ["session", "local", "off"],
+    optionTitles: ["This Tab", "This Browser", "Nothing"],
+    defaultValue: "session",
+  },
+  persistMinutes: {
+    type: ControlType.Number,
+    title: "Remember For",
+    defaultValue: 30,
+    min: 0,
+    max: 10080,
+    step: 5,
+    unit: "min",
+  },
+  keyboardShortcut: {
+    type: ControlType.String,
+    title: "Shortcut",
+    defaultValue: "Space",
+    placeholder: "Off",
+    displaySegmentedControl: false,
+  },
+  debug: {
+    type: ControlType.Boolean,
+    title: "Debug Logging",
+    defaultValue: false,
+  },
+  onOpen: {
+    type: ControlType.EventHandler,
+  },
+  onClose: {
+    type: ControlType.EventHandler,
+  },
+  onTranscript: {
+    type: ControlType.EventHandler,
+  },
+  onResponse: {
+    type: ControlType.EventHandler,
+  },
+  onSpeakStart: {
+    type: ControlType.EventHandler,
+  },
+  onSpeakEnd: {
+    type: ControlType.EventHandler,
+  },
+  onError: {
+    type: ControlType.EventHandler,
+  },
 })
\ No newline at end of file
@@ -0,0 +1,78 @@
+// Helpers for the transcript admin routes: reading a listing filter from the
+// query string and exporting conversations as JSON Lines or CSV.
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+// A date or timestamp as an ISO string. A bare `to` date includes that whole day.
+function parseDate(value, endOfDay) {
+  if (typeof value !== 'string' || !value) return undefined;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return null;
+  if (endOfDay && DATE_ONLY.test(value)) date.setUTCHours(23, 59, 59, 999);
+  return date.toISOString();
+}
+
+const asString = (value) => (typeof value === 'string' && value.trim() ? value.trim() : undefined);
+
+// ?q=&personaId=&from=&to=&limit=&offset= as a store filter, or an error message
+function filterFromQuery(query) {
+  const from = parseDate(query.from, false);
+  const to = parseDate(query.to, true);
+  if (from === null || to === null) {
+    return { error: 'from and to must be dates such as 2024-05-31 or 2024-05-31T12:00:00Z' };
+  }
+
+  const limit = parseInt(query.limit, 10);
+  const offset = parseInt(query.offset, 10);
+  return {
+    filter: {
+      query: asString(query.q),
+      personaId: asString(query.personaId),
+      from,
+      to,
+      limit: Math.min(limit > 0 ? limit : DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE),
+      offset: offset > 0 ? offset : 0,
+    },
+  };
+}
+
+// One conversation, with its messages, per line
+const toJsonLine = (conversation) => `${JSON.stringify(conversation)}\n`;
+
+// One row per message
+const CSV_COLUMNS = [
+  ['conversation_id', (c) => c.id],
+  ['persona_id', (c) => c.personaId],
+  ['origin', (c) => c.origin],
+  ['language', (c) => c.language],
+  ['created_at', (c, m) => m.createdAt],
+  ['role', (c, m) => m.role],
+  ['content', (c, m) => m.content],
+  ['page_url', (c, m) => m.pageUrl],
+  ['latency_ms', (c, m) => m.latencyMs],
+  ['first_token_ms', (c, m) => m.firstTokenMs],
+  ['provider', (c, m) => m.provider],
+  ['model', (c, m) => m.model],
+  ['tool_calls', (c, m) => (m.toolCalls?.length ? JSON.stringify(m.toolCalls) : '')],
+  ['error', (c, m) => m.error],
+];
+
+// Quotes a cell when needed. Text starting like a formula gets a leading
+// apostrophe so spreadsheets show it instead of running it.
+function csvCell(value) {
+  if (value === undefined || value === null) return '';
+  let text = String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+const csvHeader = () => `${CSV_COLUMNS.map(([name]) => name).join(',')}\n`;
+
+const toCsvRows = (conversation) => conversation.messages
+  .map(message => `${CSV_COLUMNS.map(([, valueOf]) => csvCell(valueOf(conversation, message))).join(',')}\n`)
+  .join('');
+
+module.exports = { filterFromQuery, toJsonLine, csvHeader, toCsvRows };
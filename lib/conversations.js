@@ -0,0 +1,116 @@
+const crypto = require('crypto');
+
+// In-memory conversation history, keyed by the conversation ID the widget sends.
+// History is bounded both by message count and by an estimated token budget so
+// long sessions never blow past the model's context window.
+const MAX_HISTORY_MESSAGES = parseInt(process.env.MAX_HISTORY_MESSAGES || '20', 10);
+const MAX_HISTORY_TOKENS = parseInt(process.env.MAX_HISTORY_TOKENS || '3000', 10);
+const SESSION_TTL_MS = parseInt(process.env.SESSION_TTL_MINUTES || '30', 10) * 60 * 1000;
+const MAX_SESSIONS = parseInt(process.env.MAX_SESSIONS || '1000', 10);
+
+const CONVERSATION_ID_PATTERN = /^[A-Za-z0-9_-]{8,64}$/;
+
+const sessions = new Map();
+
+function createConversationId() {
+  return crypto.randomUUID();
+}
+
+function isValidConversationId(id) {
+  return typeof id === 'string' && CONVERSATION_ID_PATTERN.test(id);
+}
+
+// Rough estimate (~4 characters per token plus per-message overhead). Good enough
+// for budgeting without pulling in a tokenizer.
+function estimateTokens(text) {
+  return Math.ceil((text || '').length / 4) + 4;
+}
+
+function messageTokens(message) {
+  const toolCallTokens = message.toolCalls ? estimateTokens(JSON.stringify(message.toolCalls)) : 0;
+  return estimateTokens(message.content) + toolCallTokens;
+}
+
+// Drops the oldest messages until the history fits both limits. The newest
+// message is always kept, and leading assistant replies and tool results are
+// dropped together with their question so the model never sees an answer
+// without context.
+function trimHistory(messages, maxTokens = MAX_HISTORY_TOKENS, maxMessages = MAX_HISTORY_MESSAGES) {
+  const trimmed = messages.slice(-maxMessages);
+  let total = trimmed.reduce((sum, m) => sum + messageTokens(m), 0);
+
+  while (trimmed.length > 1 && total > maxTokens) {
+    total -= messageTokens(trimmed.shift());
+  }
+  while (trimmed.length > 1 && trimmed[0].role !== 'user') {
+    trimmed.shift();
+  }
+
+  return trimmed;
+}
+
+// Questions the widget sent without getting an answer, because a newer one
+// replaced the request, which the history doesn't have yet. A replaced request
+// may still have finished on the server: its user message is then the last
+// one, holding that question joined with the unstored ones before it.
+function unstoredQuestions(history, questions) {
+  const lastQuestion = [...history].reverse().find(m => m.role === 'user')?.content;
+  for (let end = questions.length; end > 0; end--) {
+    for (let start = end - 1; start >= 0; start--) {
+      if (questions.slice(start, end).join(' ') === lastQuestion) return questions.slice(end);
+    }
+  }
+  return questions;
+}
+
+function getHistory(conversationId) {
+  const session = sessions.get(conversationId);
+  if (!session) return [];
+
+  if (Date.now() - session.updatedAt > SESSION_TTL_MS) {
+    sessions.delete(conversationId);
+    return [];
+  }
+  return session.messages;
+}
+
+function appendMessages(conversationId, ...messages) {
+  const history = [...getHistory(conversationId), ...messages];
+
+  // Re-insert so the Map stays ordered from least to most recently used
+  sessions.delete(conversationId);
+  sessions.set(conversationId, {
+    messages: trimHistory(history),
+    updatedAt: Date.now(),
+  });
+
+  while (sessions.size > MAX_SESSIONS) {
+    sessions.delete(sessions.keys().next().value);
+  }
+}
+
+function deleteConversation(conversationId) {
+  return sessions.delete(conversationId);
+}
+
+function purgeExpiredSessions() {
+  const now = Date.now();
+  for (const [id, session] of sessions) {
+    if (now - session.updatedAt > SESSION_TTL_MS) {
+      sessions.delete(id);
+    }
+  }
+}
+
+setInterval(purgeExpiredSessions, 60 * 1000).unref();
+
+module.exports = {
+  createConversationId,
+  isValidConversationId,
+  estimateTokens,
+  trimHistory,
+  unstoredQuestions,
+  getHistory,
+  appendMessages,
+  deleteConversation,
+};
@@ -0,0 +1,29 @@
+// Every error response has the same shape: a readable `error` message plus a
+// stable `code` the widget can map to a polite reply, and extra fields such
+// as `retryAfter` where they help.
+function sendError(res, status, code, message, extra = {}) {
+  return res.status(status).json({ error: message, code, ...extra });
+}
+
+// Status for a failing model, transcription or speech service. Whatever it
+// answered (a bad key is a 401, a rejected request a 400) is the server's
+// problem, not the visitor's, so it never reaches the widget as a 4xx:
+// overloaded or rate-limited services give 503, timeouts 504, the rest 502.
+function providerErrorStatus(error) {
+  if (error.status === 408 || error.status === 504) return 504;
+  if (error.status === 429 || error.status === 503 || error.status === 529) return 503;
+  return 502;
+}
+
+// Body parser failures (oversized or malformed JSON, oversized audio)
+function handleBodyErrors(error, req, res, next) {
+  if (error.type === 'entity.too.large') {
+    return sendError(res, 413, 'request_too_large', 'Request body is too large');
+  }
+  if (error.type === 'entity.parse.failed') {
+    return sendError(res, 400, 'invalid_json', 'Request body is not valid JSON');
+  }
+  next(error);
+}
+
+module.exports = { sendError, providerErrorStatus, handleBodyErrors };
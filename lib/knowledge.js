@@ -0,0 +1,266 @@
+const fs = require('fs');
+const path = require('path');
+
+// Local knowledge base so Roberto answers from the site's own content instead of
+// guessing. Markdown, HTML, plain text and JSON crawl snapshots are read from a
+// folder, split into passages and searched with BM25 keyword ranking.
+const CHUNK_CHARS = parseInt(process.env.KNOWLEDGE_CHUNK_CHARS || '1000', 10);
+const TOP_K = parseInt(process.env.KNOWLEDGE_TOP_K || '3', 10);
+
+// BM25 tuning: term frequency saturation and document length normalisation
+const K1 = 1.2;
+const B = 0.75;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'do', 'does', 'for', 'from',
+  'how', 'i', 'if', 'in', 'is', 'it', 'me', 'my', 'of', 'on', 'or', 'so', 'that', 'the',
+  'this', 'to', 'was', 'we', 'what', 'when', 'where', 'which', 'who', 'why', 'will', 'with',
+  'you', 'your',
+]);
+
+const ENTITIES = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+// Lowercased words without stop words. Plurals are folded ("refunds" matches
+// "refund") in place of proper stemming.
+function tokenize(text) {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [])
+    .filter(word => word.length > 1 && !STOP_WORDS.has(word))
+    .map(word => (word.length > 3 && /[^s]s$/.test(word) ? word.slice(0, -1) : word));
+}
+
+function decodeEntities(text) {
+  return text.replace(/&(#x?[0-9a-f]+|\w+);/gi, (entity, code) => {
+    if (code[0] === '#') {
+      const value = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isNaN(value) ? entity : String.fromCodePoint(value);
+    }
+    return ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+// Readable text from a page, with headings kept as Markdown so chunking can split on them
+function htmlToText(html) {
+  return decodeEntities(html
+    .replace(/<(script|style|noscript|svg|nav|footer)\b[\s\S]*?<\/\1>/gi, '')
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi, (match, level, inner) =>
+      `\n\n${'#'.repeat(Number(level))} ${inner.replace(/<[^>]+>/g, '')}\n\n`)
+    .replace(/<\/(p|div|section|article|li|tr|blockquote|pre)>|<br\s*\/?>/gi, '\n\n')
+    .replace(/<[^>]+>/g, ' '))
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\n\s*\n\s*/g, '\n\n')
+    .trim();
+}
+
+function parseHtml(html) {
+  const title = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+  const canonical = html.match(/<link[^>]+rel=["']canonical["'][^>]*>/i)?.[0].match(/href=["']([^"']+)["']/i)?.[1];
+  const body = html.match(/<body[^>]*>([\s\S]*)<\/body>/i)?.[1] ?? html;
+
+  return {
+    title: title && decodeEntities(title.trim()),
+    url: canonical,
+    text: htmlToText(body),
+  };
+}
+
+// Simple `key: value` front matter is enough for title and url
+function parseMarkdown(markdown) {
+  const frontMatter = {};
+  const body = markdown.replace(/^---\r?\n([\s\S]*?)\r?\n---\r?\n/, (match, block) => {
+    for (const line of block.split(/\r?\n/)) {
+      const field = line.match(/^(\w+):\s*(.*)$/);
+      if (field) frontMatter[field[1].toLowerCase()] = field[2].replace(/^["']|["']$/g, '').trim();
+    }
+    return '';
+  });
+
+  return {
+    title: frontMatter.title || body.match(/^#\s+(.+)$/m)?.[1].trim(),
+    url: frontMatter.url,
+    text: body.trim(),
+  };
+}
+
+// A crawl snapshot is an array of pages (or { pages: [...] }) with a url,
+// a title and either html or plain text content
+function parseSnapshot(json) {
+  const data = JSON.parse(json);
+  const pages = Array.isArray(data) ? data : data.pages || [data];
+
+  return pages.map((page) => {
+    const parsed = page.html ? parseHtml(page.html) : { text: page.content || page.text || '' };
+    return {
+      title: page.title || parsed.title,
+      url: page.url || parsed.url,
+      text: parsed.text,
+    };
+  });
+}
+
+const PARSERS = {
+  '.md': text => [parseMarkdown(text)],
+  '.markdown': text => [parseMarkdown(text)],
+  '.mdx': text => [parseMarkdown(text)],
+  '.html': text => [parseHtml(text)],
+  '.htm': text => [parseHtml(text)],
+  '.txt': text => [{ text: text.trim() }],
+  '.json': parseSnapshot,
+};
+
+function listFiles(dir) {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    if (entry.name.startsWith('.')) return [];
+    const fullPath = path.join(dir, entry.name);
+    return entry.isDirectory() ? listFiles(fullPath) : [fullPath];
+  });
+}
+
+// Pages without their own URL are linked relative to baseUrl, e.g. pricing.md -> /pricing
+function urlForFile(relativePath, baseUrl) {
+  if (!baseUrl) return undefined;
+  const route = relativePath
+    .split(path.sep).join('/')
+    .replace(/\.[^./]+$/, '')
+    .replace(/(^|\/)index$/, '');
+  return `${baseUrl.replace(/\/+$/, '')}/${route}`;
+}
+
+function loadDocuments(dir, baseUrl) {
+  const documents = [];
+
+  for (const file of listFiles(dir)) {
+    const parse = PARSERS[path.extname(file).toLowerCase()];
+    if (!parse) continue;
+
+    const relativePath = path.relative(dir, file);
+    try {
+      for (const document of parse(fs.readFileSync(file, 'utf8'))) {
+        if (!document.text) continue;
+        documents.push({
+          title: document.title || path.basename(file, path.extname(file)),
+          url: document.url || urlForFile(relativePath, baseUrl),
+          text: document.text,
+        });
+      }
+    } catch (error) {
+      console.warn(`⚠️  Skipping ${relativePath}: ${error.message}`);
+    }
+  }
+
+  return documents;
+}
+
+// Splits text into passages of about maxChars, starting a new one at each
+// heading so a passage stays about one topic
+function chunkText(text, maxChars = CHUNK_CHARS) {
+  const chunks = [];
+  let current = '';
+
+  const flush = () => {
+    if (current.trim()) chunks.push(current.trim());
+    current = '';
+  };
+
+  for (const paragraph of text.split(/\n\s*\n/)) {
+    if (/^#{1,6}\s/.test(paragraph)) flush();
+
+    // Paragraphs longer than a whole passage are split between sentences
+    const pieces = paragraph.length > maxChars
+      ? paragraph.match(new RegExp(`[\\s\\S]{1,${maxChars}}(?:[.!?](?=\\s)|$)|[\\s\\S]{1,${maxChars}}`, 'g'))
+      : [paragraph];
+
+    for (const piece of pieces) {
+      if (current && current.length + piece.length > maxChars) flush();
+      current += `${piece}\n\n`;
+    }
+  }
+  flush();
+
+  return chunks;
+}
+
+// Builds the BM25 index over every passage of the given documents
+function createKnowledgeBase(documents) {
+  const passages = documents.flatMap(document =>
+    chunkText(document.text).map((text) => {
+      const terms = tokenize(`${document.title} ${text}`);
+      const frequencies = new Map();
+      for (const term of terms) frequencies.set(term, (frequencies.get(term) || 0) + 1);
+      return { title: document.title, url: document.url, text, length: terms.length, frequencies };
+    }));
+
+  const documentFrequency = new Map();
+  for (const passage of passages) {
+    for (const term of passage.frequencies.keys()) {
+      documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+    }
+  }
+  const averageLength = passages.reduce((sum, p) => sum + p.length, 0) / (passages.length || 1);
+
+  const idf = (term) => {
+    const n = documentFrequency.get(term) || 0;
+    return Math.log(1 + (passages.length - n + 0.5) / (n + 0.5));
+  };
+
+  // Best matching passages for a question, most relevant first
+  function search(query, limit = TOP_K) {
+    const terms = [...new Set(tokenize(query))];
+    if (terms.length === 0) return [];
+
+    return passages
+      .map((passage) => {
+        let score = 0;
+        for (const term of terms) {
+          const tf = passage.frequencies.get(term);
+          if (!tf) continue;
+          score += idf(term) * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * passage.length / averageLength));
+        }
+        return { title: passage.title, url: passage.url, text: passage.text, score };
+      })
+      .filter(result => result.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  return { size: passages.length, documents: documents.length, search };
+}
+
+// Loads KNOWLEDGE_DIR, or returns null when no knowledge base is configured
+function loadKnowledgeBase(env = process.env) {
+  if (!env.KNOWLEDGE_DIR) return null;
+
+  const dir = path.resolve(env.KNOWLEDGE_DIR);
+  if (!fs.existsSync(dir)) {
+    throw new Error(`KNOWLEDGE_DIR "${env.KNOWLEDGE_DIR}" does not exist`);
+  }
+  return createKnowledgeBase(loadDocuments(dir, env.KNOWLEDGE_BASE_URL));
+}
+
+// The system prompt section that grounds the reply in the retrieved passages
+function formatPassages(passages) {
+  const excerpts = passages
+    .map((p, i) => `[${i + 1}] ${p.title}${p.url ? ` (${p.url})` : ''}\n${p.text}`)
+    .join('\n\n');
+
+  return 'Answer questions about this website using the excerpts below. If they do not cover ' +
+    "the question, say you don't know rather than guessing.\n\n" + excerpts;
+}
+
+// Distinct links for the passages a reply was grounded in
+function sourcesOf(passages) {
+  const sources = new Map();
+  for (const { title, url } of passages) {
+    if (url && !sources.has(url)) sources.set(url, { title, url });
+  }
+  return [...sources.values()];
+}
+
+module.exports = {
+  tokenize,
+  chunkText,
+  createKnowledgeBase,
+  loadKnowledgeBase,
+  formatPassages,
+  sourcesOf,
+};
@@ -0,0 +1,178 @@
+const fs = require('fs');
+const path = require('path');
+
+// Personas are owned by the server: the widget only names one by ID, so
+// visitors can't rewrite Roberto's instructions. They are read from a JSON
+// file (PERSONAS_FILE, personas.json by default):
+//
+//   {
+//     "default": "roberto",
+//     "personas": {
+//       "roberto": {
+//         "name": "Roberto",
+//         "instructions": "You are {{name}}, the assistant on {{page.title}} ({{page.url}}). Reply in {{locale}}.",
+//         "greeting": "Hi! Ask me anything about our products.",
+//         "tools": ["navigate_to", "scroll_to"],
+//         "model": "gpt-4o-mini",
+//         "temperature": 0.5,
+//         "maxTokens": 300
+//       }
+//     }
+//   }
+const DEFAULT_PERSONA_ID = 'roberto';
+
+const DEFAULT_PERSONA = {
+  name: 'Roberto',
+  instructions: 'You are {{name}}, a helpful AI assistant. Respond concisely and helpfully.',
+  greeting: '',
+};
+
+const MAX_CONTEXT_CHARS = 200;
+
+function validatePersona(id, persona) {
+  if (!persona || typeof persona.instructions !== 'string' || !persona.instructions.trim()) {
+    throw new Error(`Persona "${id}" needs "instructions"`);
+  }
+  if (persona.tools !== undefined && !Array.isArray(persona.tools)) {
+    throw new Error(`Persona "${id}": "tools" must be a list of tool names`);
+  }
+
+  return {
+    id,
+    name: typeof persona.name === 'string' ? persona.name : id,
+    instructions: persona.instructions,
+    greeting: typeof persona.greeting === 'string' ? persona.greeting : '',
+    // undefined allows every tool the widget offers, [] allows none
+    tools: persona.tools,
+    settings: {
+      model: persona.model,
+      temperature: persona.temperature,
+      maxTokens: persona.maxTokens,
+    },
+  };
+}
+
+// Loads the persona file, or just the built-in Roberto persona when there is none
+function loadPersonas(env = process.env) {
+  const file = path.resolve(env.PERSONAS_FILE || 'personas.json');
+  const personas = new Map();
+  let defaultId = DEFAULT_PERSONA_ID;
+
+  if (fs.existsSync(file)) {
+    let config;
+    try {
+      config = JSON.parse(fs.readFileSync(file, 'utf8'));
+    } catch (error) {
+      throw new Error(`Could not read ${file}: ${error.message}`);
+    }
+
+    for (const [id, persona] of Object.entries(config.personas || {})) {
+      personas.set(id, validatePersona(id, persona));
+    }
+    defaultId = config.default || personas.keys().next().value || DEFAULT_PERSONA_ID;
+  } else if (env.PERSONAS_FILE) {
+    throw new Error(`PERSONAS_FILE "${env.PERSONAS_FILE}" does not exist`);
+  }
+
+  if (!personas.has(defaultId)) {
+    if (personas.size > 0) throw new Error(`Default persona "${defaultId}" is not defined`);
+    personas.set(defaultId, validatePersona(defaultId, DEFAULT_PERSONA));
+  }
+
+  return {
+    defaultId,
+    size: personas.size,
+    // Without an ID the default persona is used; an unknown ID returns undefined
+    get: (id) => personas.get(id || defaultId),
+  };
+}
+
+// Page details sent by the widget are untrusted: keep them short, on one line
+// and free of template markers so they can't smuggle in instructions or variables
+function cleanText(value) {
+  if (typeof value !== 'string') return '';
+  return value
+    .replace(/[\u0000-\u001f\u007f]+/g, ' ')
+    .replace(/\{\{|\}\}/g, '')
+    .trim()
+    .slice(0, MAX_CONTEXT_CHARS);
+}
+
+// Only the origin and path of the page, never query strings or fragments
+function cleanUrl(value) {
+  try {
+    const url = new URL(value);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return '';
+    return cleanText(`${url.origin}${url.pathname}`);
+  } catch (error) {
+    return '';
+  }
+}
+
+// A BCP-47 language tag such as "es" or "pt-BR", or '' for anything else
+function cleanLanguage(value) {
+  const tag = cleanText(value);
+  return /^[A-Za-z]{2,3}(-[A-Za-z0-9]{2,8})*$/.test(tag) ? tag : '';
+}
+
+function sanitizeContext(context) {
+  const raw = context && typeof context === 'object' ? context : {};
+  return {
+    'page.title': cleanText(raw.pageTitle),
+    'page.url': cleanUrl(raw.pageUrl),
+    locale: cleanLanguage(raw.locale),
+    'previousPage.title': cleanText(raw.previousPageTitle),
+    'previousPage.url': cleanUrl(raw.previousPageUrl),
+  };
+}
+
+// "es-MX" -> "Spanish (Mexico)", so the model knows what to reply in
+function languageName(tag) {
+  try {
+    return new Intl.DisplayNames(['en'], { type: 'language' }).of(tag) || tag;
+  } catch (error) {
+    return tag;
+  }
+}
+
+// Fills {{variables}} in one pass, so values are never expanded again.
+// Unknown variables become empty. Personas that don't place {{locale}}
+// themselves are told which language the widget is set to, and the model
+// learns when the visitor has moved to another page mid-conversation.
+function renderInstructions(persona, context) {
+  const values = {
+    name: persona.name,
+    date: new Date().toISOString().slice(0, 10),
+    ...sanitizeContext(context),
+  };
+  const instructions = persona.instructions.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (match, key) => values[key] ?? '');
+  const notes = [];
+
+  if (values.locale && !/\{\{\s*locale\s*\}\}/.test(persona.instructions)) {
+    notes.push(`Reply in ${languageName(values.locale)} unless the visitor writes in another language.`);
+  }
+  if (values['previousPage.url'] && values['previousPage.url'] !== values['page.url']) {
+    const previous = values['previousPage.title'] ? `"${values['previousPage.title']}" (${values['previousPage.url']})` : values['previousPage.url'];
+    notes.push(`Earlier in this conversation the visitor was on ${previous} and has since moved to this page. Refer back to it where it helps, e.g. "as I mentioned on the previous page".`);
+  }
+
+  return [instructions, ...notes].join('\n\n');
+}
+
+// Only the tools the persona allows
+function allowedTools(persona, tools) {
+  if (!persona.tools) return tools;
+  return tools.filter(tool => persona.tools.includes(tool.name));
+}
+
+// What the widget may know about a persona
+const publicPersona = (persona) => ({ id: persona.id, name: persona.name, greeting: persona.greeting });
+
+module.exports = {
+  loadPersonas,
+  cleanLanguage,
+  sanitizeContext,
+  renderInstructions,
+  allowedTools,
+  publicPersona,
+};
@@ -0,0 +1,126 @@
+const { ProviderError, ensureOk, resolveSettings, parseArguments } = require('./shared');
+const { parseEventStream } = require('../sse');
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+const DEFAULT_MODEL = 'claude-3-5-sonnet-latest';
+
+// Converts the server's neutral history format to Messages API turns. Tool
+// results are sent as user turns, and consecutive turns of one role are merged.
+function toAnthropicMessages(messages) {
+  const turns = [];
+
+  for (const message of messages) {
+    if (message.role === 'system') continue;
+
+    let role = message.role;
+    let content;
+    if (message.role === 'tool') {
+      role = 'user';
+      content = [{ type: 'tool_result', tool_use_id: message.toolCallId, content: message.content }];
+    } else if (message.toolCalls) {
+      content = [
+        ...(message.content ? [{ type: 'text', text: message.content }] : []),
+        ...message.toolCalls.map(call => ({ type: 'tool_use', id: call.id, name: call.name, input: call.arguments })),
+      ];
+    } else {
+      content = [{ type: 'text', text: message.content }];
+    }
+
+    const previous = turns[turns.length - 1];
+    if (previous && previous.role === role) {
+      previous.content.push(...content);
+    } else {
+      turns.push({ role, content });
+    }
+  }
+
+  return turns;
+}
+
+function createAnthropicProvider(config) {
+  const baseUrl = config.baseUrl || 'https://api.anthropic.com';
+
+  if (!config.apiKey) {
+    throw new Error('ANTHROPIC_API_KEY environment variable is not set');
+  }
+
+  async function request(messages, options, stream) {
+    const settings = resolveSettings(config, { model: DEFAULT_MODEL }, options);
+
+    // The Messages API takes the system prompt separately from the turns
+    const system = messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+
+    const response = await fetch(`${baseUrl}/v1/messages`, {
+      method: 'POST',
+      signal: options.signal,
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': config.apiKey,
+        'anthropic-version': ANTHROPIC_VERSION,
+      },
+      body: JSON.stringify({
+        model: settings.model,
+        system: system || undefined,
+        messages: toAnthropicMessages(messages),
+        temperature: settings.temperature,
+        max_tokens: settings.maxTokens,
+        ...(options.tools?.length && {
+          tools: options.tools.map(tool => ({
+            name: tool.name,
+            description: tool.description,
+            input_schema: tool.parameters,
+          })),
+        }),
+        stream,
+      }),
+    });
+
+    await ensureOk(response, 'Anthropic');
+    return response;
+  }
+
+  return {
+    name: 'anthropic',
+    model: config.model || DEFAULT_MODEL,
+
+    async complete(messages, options = {}) {
+      const data = await (await request(messages, options, false)).json();
+      const blocks = data.content || [];
+      return {
+        content: blocks.filter(block => block.type === 'text').map(block => block.text).join(''),
+        toolCalls: blocks
+          .filter(block => block.type === 'tool_use')
+          .map(block => ({ id: block.id, name: block.name, arguments: block.input || {} })),
+      };
+    },
+
+    async *stream(messages, options = {}) {
+      const response = await request(messages, options, true);
+
+      // tool_use blocks stream their input as partial JSON until the block stops
+      const toolBlocks = {};
+      for await (const data of parseEventStream(response.body)) {
+        const event = JSON.parse(data);
+
+        if (event.type === 'content_block_start' && event.content_block?.type === 'tool_use') {
+          toolBlocks[event.index] = { id: event.content_block.id, name: event.content_block.name, json: '' };
+        } else if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+          yield { type: 'text', text: event.delta.text };
+        } else if (event.type === 'content_block_delta' && event.delta?.type === 'input_json_delta') {
+          toolBlocks[event.index].json += event.delta.partial_json;
+        } else if (event.type === 'content_block_stop' && toolBlocks[event.index]) {
+          const block = toolBlocks[event.index];
+          yield { type: 'tool_call', toolCall: { id: block.id, name: block.name, arguments: parseArguments(block.json) } };
+        } else if (event.type === 'error') {
+          // Errors that happen after the stream started arrive in-band
+          throw new ProviderError('Anthropic', 500, event.error);
+        } else if (event.type === 'message_stop') {
+          return;
+        }
+      }
+    },
+  };
+}
+
+module.exports = { createAnthropicProvider };
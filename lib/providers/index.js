@@ -0,0 +1,48 @@
+const { createOpenAIProvider } = require('./openai');
+const { createAnthropicProvider } = require('./anthropic');
+const { createOllamaProvider } = require('./ollama');
+const { createMockProvider } = require('./mock');
+const { ProviderError } = require('./shared');
+
+const PROVIDERS = {
+  openai: createOpenAIProvider,
+  anthropic: createAnthropicProvider,
+  ollama: createOllamaProvider,
+  mock: createMockProvider,
+};
+
+// Provider-specific key variables, used when LLM_API_KEY is not set
+const API_KEY_VARIABLES = {
+  openai: 'OPENAI_API_KEY',
+  anthropic: 'ANTHROPIC_API_KEY',
+};
+
+const parseNumber = (value) => (value === undefined || value === '' ? undefined : Number(value));
+
+// Builds the provider selected by LLM_PROVIDER. Every provider exposes its
+// `name`, the `model` it uses unless options say otherwise, and:
+//   complete(messages, options) -> { content, toolCalls }
+//   stream(messages, options)   -> async iterable of { type: 'text', text }
+//                                  and { type: 'tool_call', toolCall }
+// Messages are { role, content } with optional `toolCalls` on assistant turns
+// and { role: 'tool', toolCallId, name, content } for tool results. Options may
+// carry `tools`, a `signal`, and override model, temperature and maxTokens.
+function createProvider(env = process.env) {
+  const name = (env.LLM_PROVIDER || 'openai').toLowerCase();
+  const factory = PROVIDERS[name];
+
+  if (!factory) {
+    throw new Error(`Unknown LLM_PROVIDER "${name}". Use one of: ${Object.keys(PROVIDERS).join(', ')}`);
+  }
+
+  return factory({
+    apiKey: env.LLM_API_KEY || env[API_KEY_VARIABLES[name]],
+    baseUrl: env.LLM_BASE_URL?.replace(/\/+$/, ''),
+    model: env.LLM_MODEL,
+    temperature: parseNumber(env.LLM_TEMPERATURE),
+    maxTokens: parseNumber(env.LLM_MAX_TOKENS),
+    delayMs: parseNumber(env.MOCK_DELAY_MS),
+  });
+}
+
+module.exports = { createProvider, ProviderError };
@@ -0,0 +1,62 @@
+const { parseArguments } = require('./shared');
+
+const sleep = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Messages like `/tool scroll_to {"target":"pricing"}` make the mock call a tool
+const TOOL_COMMAND = /^\/tool\s+([\w-]+)\s*(\{.*\})?\s*$/;
+
+// Deterministic provider for local development and tests: no key, no network.
+// It echoes the last question and counts the turns so conversation memory is
+// easy to verify.
+function createMockProvider(config) {
+  const delayMs = config.delayMs || 0;
+  let callCount = 0;
+
+  function reply(messages, tools = []) {
+    const last = messages[messages.length - 1];
+    if (last?.role === 'tool') {
+      return { content: `Done: ${last.name} returned ${last.content}.`, toolCalls: [] };
+    }
+
+    const questions = messages.filter(m => m.role === 'user');
+    const lastQuestion = questions[questions.length - 1]?.content || '';
+
+    const command = lastQuestion.match(TOOL_COMMAND);
+    if (command && tools.some(tool => tool.name === command[1])) {
+      callCount += 1;
+      return {
+        content: '',
+        toolCalls: [{ id: `mock_call_${callCount}`, name: command[1], arguments: parseArguments(command[2]) }],
+      };
+    }
+
+    return {
+      content: `You said: "${lastQuestion}". This is message ${questions.length} of our conversation.`,
+      toolCalls: [],
+    };
+  }
+
+  return {
+    name: 'mock',
+    model: 'mock',
+
+    async complete(messages, options = {}) {
+      return reply(messages, options.tools);
+    },
+
+    async *stream(messages, options = {}) {
+      const { content, toolCalls } = reply(messages, options.tools);
+
+      for (const word of content.split(/(?<=\s)/).filter(Boolean)) {
+        if (options.signal?.aborted) return;
+        if (delayMs) await sleep(delayMs);
+        yield { type: 'text', text: word };
+      }
+      for (const toolCall of toolCalls) {
+        yield { type: 'tool_call', toolCall };
+      }
+    },
+  };
+}
+
+module.exports = { createMockProvider };
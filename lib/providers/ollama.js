@@ -0,0 +1,106 @@
+const crypto = require('crypto');
+const { ensureOk, resolveSettings } = require('./shared');
+
+const DEFAULT_MODEL = 'llama3.1';
+
+// Yields each JSON object from a newline-delimited JSON response body
+async function* parseJsonLines(body) {
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for await (const chunk of body) {
+    buffer += decoder.decode(chunk, { stream: true });
+
+    let newline;
+    while ((newline = buffer.indexOf('\n')) !== -1) {
+      const line = buffer.slice(0, newline).trim();
+      buffer = buffer.slice(newline + 1);
+      if (line) yield JSON.parse(line);
+    }
+  }
+
+  if (buffer.trim()) yield JSON.parse(buffer);
+}
+
+// Converts the server's neutral history format to Ollama chat messages
+function toOllamaMessages(messages) {
+  return messages.map(message => {
+    if (message.role === 'tool') {
+      return { role: 'tool', content: message.content };
+    }
+    if (message.role === 'assistant' && message.toolCalls) {
+      return {
+        role: 'assistant',
+        content: message.content || '',
+        tool_calls: message.toolCalls.map(call => ({ function: { name: call.name, arguments: call.arguments } })),
+      };
+    }
+    return { role: message.role, content: message.content };
+  });
+}
+
+// Ollama does not assign IDs to tool calls, so make one up for the history
+const fromOllamaToolCall = (call) => ({
+  id: `call_${crypto.randomUUID()}`,
+  name: call.function.name,
+  arguments: call.function.arguments || {},
+});
+
+// Talks to Ollama's native chat API. For llama.cpp's server use the openai
+// provider with LLM_BASE_URL instead, since it speaks the OpenAI protocol.
+function createOllamaProvider(config) {
+  const baseUrl = config.baseUrl || 'http://localhost:11434';
+
+  async function request(messages, options, stream) {
+    const settings = resolveSettings(config, { model: DEFAULT_MODEL }, options);
+    const response = await fetch(`${baseUrl}/api/chat`, {
+      method: 'POST',
+      signal: options.signal,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: settings.model,
+        messages: toOllamaMessages(messages),
+        ...(options.tools?.length && {
+          tools: options.tools.map(tool => ({
+            type: 'function',
+            function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+          })),
+        }),
+        stream,
+        options: {
+          temperature: settings.temperature,
+          num_predict: settings.maxTokens,
+        },
+      }),
+    });
+
+    await ensureOk(response, 'Ollama');
+    return response;
+  }
+
+  return {
+    name: 'ollama',
+    model: config.model || DEFAULT_MODEL,
+
+    async complete(messages, options = {}) {
+      const data = await (await request(messages, options, false)).json();
+      return {
+        content: data.message?.content || '',
+        toolCalls: (data.message?.tool_calls || []).map(fromOllamaToolCall),
+      };
+    },
+
+    async *stream(messages, options = {}) {
+      const response = await request(messages, options, true);
+      for await (const chunk of parseJsonLines(response.body)) {
+        if (chunk.message?.content) yield { type: 'text', text: chunk.message.content };
+        for (const call of chunk.message?.tool_calls || []) {
+          yield { type: 'tool_call', toolCall: fromOllamaToolCall(call) };
+        }
+        if (chunk.done) return;
+      }
+    },
+  };
+}
+
+module.exports = { createOllamaProvider };
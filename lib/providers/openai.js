@@ -0,0 +1,109 @@
+const { ensureOk, resolveSettings, parseArguments } = require('./shared');
+const { parseEventStream } = require('../sse');
+
+const DEFAULT_MODEL = 'gpt-4';
+
+// Converts the server's neutral history format to OpenAI chat messages
+function toOpenAIMessages(messages) {
+  return messages.map(message => {
+    if (message.role === 'tool') {
+      return { role: 'tool', tool_call_id: message.toolCallId, content: message.content };
+    }
+    if (message.role === 'assistant' && message.toolCalls) {
+      return {
+        role: 'assistant',
+        content: message.content || null,
+        tool_calls: message.toolCalls.map(call => ({
+          id: call.id,
+          type: 'function',
+          function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+        })),
+      };
+    }
+    return { role: message.role, content: message.content };
+  });
+}
+
+const toOpenAITools = (tools) => tools.map(tool => ({
+  type: 'function',
+  function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+}));
+
+const fromOpenAIToolCall = (call) => ({
+  id: call.id,
+  name: call.function.name,
+  arguments: parseArguments(call.function.arguments),
+});
+
+// Works with OpenAI and any OpenAI-compatible server (llama.cpp, vLLM, LM Studio,
+// Azure-style proxies) by pointing LLM_BASE_URL at it
+function createOpenAIProvider(config) {
+  const baseUrl = config.baseUrl || 'https://api.openai.com/v1';
+
+  if (!config.apiKey && !config.baseUrl) {
+    throw new Error('OPENAI_API_KEY environment variable is not set');
+  }
+
+  async function request(messages, options, stream) {
+    const settings = resolveSettings(config, { model: DEFAULT_MODEL }, options);
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      signal: options.signal,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey && { 'Authorization': `Bearer ${config.apiKey}` }),
+      },
+      body: JSON.stringify({
+        model: settings.model,
+        messages: toOpenAIMessages(messages),
+        temperature: settings.temperature,
+        max_tokens: settings.maxTokens,
+        ...(options.tools?.length && { tools: toOpenAITools(options.tools) }),
+        stream,
+      }),
+    });
+
+    await ensureOk(response, 'OpenAI');
+    return response;
+  }
+
+  return {
+    name: 'openai',
+    model: config.model || DEFAULT_MODEL,
+
+    async complete(messages, options = {}) {
+      const data = await (await request(messages, options, false)).json();
+      const message = data.choices?.[0]?.message || {};
+      return {
+        content: message.content || '',
+        toolCalls: (message.tool_calls || []).map(fromOpenAIToolCall),
+      };
+    },
+
+    async *stream(messages, options = {}) {
+      const response = await request(messages, options, true);
+
+      // Tool calls arrive in fragments keyed by index; emit them once complete
+      const pendingCalls = [];
+      for await (const data of parseEventStream(response.body)) {
+        if (data === '[DONE]') break;
+        const delta = JSON.parse(data).choices?.[0]?.delta || {};
+
+        if (delta.content) yield { type: 'text', text: delta.content };
+
+        for (const fragment of delta.tool_calls || []) {
+          const call = pendingCalls[fragment.index] ||= { id: '', function: { name: '', arguments: '' } };
+          if (fragment.id) call.id = fragment.id;
+          if (fragment.function?.name) call.function.name += fragment.function.name;
+          if (fragment.function?.arguments) call.function.arguments += fragment.function.arguments;
+        }
+      }
+
+      for (const call of pendingCalls.filter(Boolean)) {
+        yield { type: 'tool_call', toolCall: fromOpenAIToolCall(call) };
+      }
+    },
+  };
+}
+
+module.exports = { createOpenAIProvider };
@@ -0,0 +1,37 @@
+// Thrown when an upstream model API answers with a non-2xx status
+class ProviderError extends Error {
+  constructor(provider, status, details) {
+    super(`${provider} API returned status ${status}`);
+    this.name = 'ProviderError';
+    this.provider = provider;
+    this.status = status;
+    this.details = details;
+  }
+}
+
+async function ensureOk(response, provider) {
+  if (response.ok) return;
+  const details = await response.json().catch(() => null);
+  throw new ProviderError(provider, response.status, details);
+}
+
+// Per-call options win over the deployment config,
+// which wins over the provider's own defaults
+function resolveSettings(config, defaults, options = {}) {
+  return {
+    model: options.model || config.model || defaults.model,
+    temperature: options.temperature ?? config.temperature ?? 0.7,
+    maxTokens: options.maxTokens ?? config.maxTokens ?? 500,
+  };
+}
+
+// Tool call arguments come back as a JSON string that models occasionally get wrong
+function parseArguments(json) {
+  try {
+    return JSON.parse(json || '{}');
+  } catch (error) {
+    return {};
+  }
+}
+
+module.exports = { ProviderError, ensureOk, resolveSettings, parseArguments };
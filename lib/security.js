@@ -0,0 +1,162 @@
+const crypto = require('crypto');
+const { sendError } = require('./errors');
+
+// Abuse protection for the public endpoints: which sites may embed the widget,
+// how often a visitor may call the API and, optionally, a short-lived signed
+// token the widget has to fetch before it can use the API.
+const ALLOWED_ORIGINS = (process.env.ALLOWED_ORIGINS || '')
+  .split(',')
+  .map(origin => origin.trim().replace(/\/+$/, ''))
+  .filter(Boolean);
+
+const WINDOW_MS = parseInt(process.env.RATE_LIMIT_WINDOW_SECONDS || '60', 10) * 1000;
+const SITE_TOKEN_SECRET = process.env.SITE_TOKEN_SECRET || '';
+const SITE_TOKEN_TTL_MS = parseInt(process.env.SITE_TOKEN_TTL_MINUTES || '30', 10) * 60 * 1000;
+const ADMIN_TOKEN = process.env.ADMIN_TOKEN || '';
+
+// `https://*.framer.app` matches any subdomain
+const originPatterns = ALLOWED_ORIGINS.map((allowed) => {
+  const escaped = allowed.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`^${escaped.replaceAll('\\*', '[^/]+')}$`, 'i');
+});
+
+// With no ALLOWED_ORIGINS every site is allowed, as before the allowlist existed.
+// Requests without an Origin header don't come from a browser page.
+function isOriginAllowed(origin) {
+  if (!origin || ALLOWED_ORIGINS.length === 0 || ALLOWED_ORIGINS.includes('*')) return true;
+  return originPatterns.some(pattern => pattern.test(origin));
+}
+
+function checkOrigin(req, res, next) {
+  if (isOriginAllowed(req.get('Origin'))) return next();
+  sendError(res, 403, 'origin_not_allowed', 'This website is not allowed to use the assistant');
+}
+
+// Fixed-window counter per key, e.g. per IP address or per session
+function createRateLimiter(limit, windowMs = WINDOW_MS) {
+  const windows = new Map();
+
+  setInterval(() => {
+    const now = Date.now();
+    for (const [key, window] of windows) {
+      if (now >= window.resetAt) windows.delete(key);
+    }
+  }, windowMs).unref();
+
+  // Counts one request and reports whether it is allowed
+  return function hit(key) {
+    const now = Date.now();
+    let window = windows.get(key);
+    if (!window || now >= window.resetAt) {
+      window = { count: 0, resetAt: now + windowMs };
+      windows.set(key, window);
+    }
+    window.count += 1;
+    return {
+      allowed: limit <= 0 || window.count <= limit,
+      retryAfter: Math.ceil((window.resetAt - now) / 1000),
+    };
+  };
+}
+
+// Middleware that applies one limiter per rule; keyOf returns null to skip a rule
+function rateLimit(...rules) {
+  return (req, res, next) => {
+    for (const { limiter, keyOf } of rules) {
+      const key = keyOf(req);
+      if (key === null || key === undefined) continue;
+
+      const { allowed, retryAfter } = limiter(key);
+      if (!allowed) {
+        res.set('Retry-After', String(retryAfter));
+        return sendError(res, 429, 'rate_limited', 'Too many requests, please slow down', { retryAfter });
+      }
+    }
+    next();
+  };
+}
+
+const sign = (payload) => crypto.createHmac('sha256', SITE_TOKEN_SECRET).update(payload).digest('base64url');
+
+// A token names the site it was issued to and an ID that rate limits treat as one session
+function createSiteToken(origin) {
+  const payload = Buffer.from(JSON.stringify({
+    sid: crypto.randomUUID(),
+    origin: origin || null,
+    exp: Date.now() + SITE_TOKEN_TTL_MS,
+  })).toString('base64url');
+  return { token: `${payload}.${sign(payload)}`, expiresIn: Math.floor(SITE_TOKEN_TTL_MS / 1000) };
+}
+
+// Returns the token's claims, or an error code when it can't be used
+function verifySiteToken(token, origin) {
+  const [payload, signature] = (token || '').split('.');
+  if (!payload || !signature) return { error: 'token_required' };
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return { error: 'token_invalid' };
+  }
+
+  let claims;
+  try {
+    claims = JSON.parse(Buffer.from(payload, 'base64url').toString());
+  } catch (error) {
+    return { error: 'token_invalid' };
+  }
+  if (claims.origin && origin && claims.origin !== origin) return { error: 'token_invalid' };
+  if (Date.now() > claims.exp) return { error: 'token_expired' };
+
+  return { claims };
+}
+
+const TOKEN_MESSAGES = {
+  token_required: 'A site token is required',
+  token_invalid: 'The site token is not valid for this website',
+  token_expired: 'The site token has expired',
+};
+
+// Only enforced when SITE_TOKEN_SECRET is set. Puts the claims on req.siteToken.
+function requireSiteToken(req, res, next) {
+  if (!SITE_TOKEN_SECRET) return next();
+
+  const token = (req.get('Authorization') || '').replace(/^Bearer\s+/i, '');
+  const { claims, error } = verifySiteToken(token, req.get('Origin'));
+  if (error) return sendError(res, 401, error, TOKEN_MESSAGES[error]);
+
+  req.siteToken = claims;
+  next();
+}
+
+const siteTokensEnabled = () => Boolean(SITE_TOKEN_SECRET);
+
+// The admin routes don't exist until ADMIN_TOKEN is set; then they need it as
+// a bearer token. Both sides are hashed first so the comparison takes the same
+// time whatever their lengths.
+function requireAdmin(req, res, next) {
+  if (!ADMIN_TOKEN) return sendError(res, 404, 'admin_disabled', 'The admin API is not enabled on this server');
+
+  const token = (req.get('Authorization') || '').replace(/^Bearer\s+/i, '');
+  const digest = (value) => crypto.createHash('sha256').update(value).digest();
+  if (!token || !crypto.timingSafeEqual(digest(token), digest(ADMIN_TOKEN))) {
+    return sendError(res, 401, 'admin_token_invalid', 'A valid admin token is required');
+  }
+  next();
+}
+
+const adminEnabled = () => Boolean(ADMIN_TOKEN);
+
+module.exports = {
+  ALLOWED_ORIGINS,
+  isOriginAllowed,
+  checkOrigin,
+  createRateLimiter,
+  rateLimit,
+  createSiteToken,
+  verifySiteToken,
+  requireSiteToken,
+  siteTokensEnabled,
+  requireAdmin,
+  adminEnabled,
+};
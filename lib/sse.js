@@ -0,0 +1,43 @@
+// Helpers for Server-Sent Events, used both to stream replies to the widget and
+// to read streamed completions from upstream model APIs.
+
+function startEventStream(res) {
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    // Stop reverse proxies (nginx, Vercel) from buffering the stream
+    'X-Accel-Buffering': 'no',
+  });
+  res.flushHeaders();
+}
+
+function sendEvent(res, data) {
+  res.write(`data: ${JSON.stringify(data)}\n\n`);
+}
+
+// Yields the `data:` payload of every event in a fetch() response body
+async function* parseEventStream(body) {
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for await (const chunk of body) {
+    buffer += decoder.decode(chunk, { stream: true }).replace(/\r\n/g, '\n');
+
+    let boundary;
+    while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+      const rawEvent = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      const data = rawEvent
+        .split('\n')
+        .filter(line => line.startsWith('data:'))
+        .map(line => line.slice(5).trimStart())
+        .join('\n');
+
+      if (data) yield data;
+    }
+  }
+}
+
+module.exports = { startEventStream, sendEvent, parseEventStream };
@@ -0,0 +1,49 @@
+const fs = require('fs');
+const path = require('path');
+const { createMemoryStore } = require('./memory');
+
+// One JSON file per conversation in <dataDir>/conversations. Everything is
+// loaded at startup and served from memory; each change rewrites that
+// conversation's file through a temporary one, so a crash never leaves half a file.
+function createFileStore({ dataDir }) {
+  const dir = path.join(dataDir, 'conversations');
+  fs.mkdirSync(dir, { recursive: true });
+
+  const conversations = [];
+  for (const file of fs.readdirSync(dir)) {
+    if (!file.endsWith('.json')) continue;
+    try {
+      conversations.push(JSON.parse(fs.readFileSync(path.join(dir, file), 'utf8')));
+    } catch (error) {
+      console.warn(`⚠️  Skipping unreadable conversation file ${file}: ${error.message}`);
+    }
+  }
+
+  const fileOf = (id) => path.join(dir, `${id}.json`);
+
+  // Writes to the same file run one after another, each with the conversation as it is by then
+  const queues = new Map();
+  const enqueue = (id, write) => {
+    const next = (queues.get(id) || Promise.resolve())
+      .then(write)
+      .catch(error => console.error(`Could not save conversation ${id}:`, error));
+    queues.set(id, next);
+    next.then(() => {
+      if (queues.get(id) === next) queues.delete(id);
+    });
+  };
+
+  const store = createMemoryStore({
+    conversations,
+    onSave: (conversation) => enqueue(conversation.id, async () => {
+      const temporary = `${fileOf(conversation.id)}.tmp`;
+      await fs.promises.writeFile(temporary, JSON.stringify(conversation));
+      await fs.promises.rename(temporary, fileOf(conversation.id));
+    }),
+    onDelete: (id) => enqueue(id, () => fs.promises.rm(fileOf(id), { force: true })),
+  });
+
+  return { ...store, name: 'file' };
+}
+
+module.exports = { createFileStore };
@@ -0,0 +1,33 @@
+const path = require('path');
+const { createFileStore } = require('./file');
+const { createSqliteStore } = require('./sqlite');
+const { createMemoryStore } = require('./memory');
+
+const STORES = {
+  file: createFileStore,
+  sqlite: createSqliteStore,
+  memory: createMemoryStore,
+};
+
+// Builds the conversation store selected by STORE_ENGINE, or returns null for
+// "off". Every store exposes, all returning promises:
+//   addMessages(conversationId, session, messages)
+//   listConversations(filter) -> { total, conversations }   summaries, latest first
+//   getConversation(id)       -> { ...summary, messages } or null
+//   deleteConversation(id)    -> whether it existed
+//   purge(before)             -> how many conversations without activity since `before` were deleted
+// session is { personaId, origin, language }. Messages are { role, content, createdAt }
+// plus details such as `pageUrl`, `latencyMs`, `provider`, `model`, `toolCalls` and `error`.
+function createStore(env = process.env) {
+  const name = (env.STORE_ENGINE || 'file').toLowerCase();
+  if (name === 'off') return null;
+
+  const factory = STORES[name];
+  if (!factory) {
+    throw new Error(`Unknown STORE_ENGINE "${name}". Use one of: ${[...Object.keys(STORES), 'off'].join(', ')}`);
+  }
+
+  return factory({ dataDir: path.resolve(env.DATA_DIR || 'data') });
+}
+
+module.exports = { createStore };
@@ -0,0 +1,68 @@
+const { summarize, matchesFilter } = require('./shared');
+
+// Keeps conversations in memory only, so they are gone when the server
+// restarts. The file store builds on it: onSave and onDelete let it mirror
+// every change to disk.
+function createMemoryStore({ conversations = [], onSave, onDelete } = {}) {
+  const byId = new Map(conversations.map(conversation => [conversation.id, conversation]));
+
+  const remove = (id) => {
+    if (!byId.delete(id)) return false;
+    onDelete?.(id);
+    return true;
+  };
+
+  return {
+    name: 'memory',
+
+    async addMessages(conversationId, session, messages) {
+      const now = new Date().toISOString();
+      let conversation = byId.get(conversationId);
+      if (!conversation) {
+        conversation = {
+          id: conversationId,
+          personaId: session.personaId || null,
+          origin: session.origin || null,
+          language: session.language || null,
+          startedAt: messages[0]?.createdAt || now,
+          updatedAt: now,
+          messages: [],
+        };
+        byId.set(conversationId, conversation);
+      }
+
+      conversation.messages.push(...messages);
+      conversation.updatedAt = now;
+      if (session.language) conversation.language = session.language;
+      onSave?.(conversation);
+    },
+
+    async listConversations(filter = {}) {
+      const matching = [...byId.values()]
+        .filter(conversation => matchesFilter(conversation, filter))
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+      const offset = filter.offset || 0;
+      const limit = filter.limit ?? matching.length;
+      return { total: matching.length, conversations: matching.slice(offset, offset + limit).map(summarize) };
+    },
+
+    async getConversation(id) {
+      return byId.get(id) || null;
+    },
+
+    async deleteConversation(id) {
+      return remove(id);
+    },
+
+    // Deletes conversations without activity since `before`, returns how many
+    async purge(before) {
+      let deleted = 0;
+      for (const conversation of [...byId.values()]) {
+        if (conversation.updatedAt < before && remove(conversation.id)) deleted += 1;
+      }
+      return deleted;
+    },
+  };
+}
+
+module.exports = { createMemoryStore };
@@ -0,0 +1,30 @@
+// Helpers shared by the conversation stores. Timestamps are ISO 8601 strings,
+// so they sort and compare as plain text in every store.
+
+const PREVIEW_CHARS = 120;
+
+// What a listing shows of a conversation: everything but the messages
+function summarize(conversation) {
+  const { messages, ...details } = conversation;
+  const question = messages.find(message => message.role === 'user');
+  return {
+    ...details,
+    messageCount: messages.length,
+    preview: question ? question.content.slice(0, PREVIEW_CHARS) : '',
+  };
+}
+
+// Filters for listing, searching and exporting:
+//   { query, personaId, from, to, limit, offset }
+// query matches any message text, case-insensitively; from and to bound the last activity
+function matchesFilter(conversation, { query, personaId, from, to } = {}) {
+  if (personaId && conversation.personaId !== personaId) return false;
+  if (from && conversation.updatedAt < from) return false;
+  if (to && conversation.updatedAt > to) return false;
+  if (!query) return true;
+
+  const needle = query.toLowerCase();
+  return conversation.messages.some(message => message.content.toLowerCase().includes(needle));
+}
+
+module.exports = { PREVIEW_CHARS, summarize, matchesFilter };
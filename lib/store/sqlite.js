@@ -0,0 +1,169 @@
+const fs = require('fs');
+const path = require('path');
+const { PREVIEW_CHARS } = require('./shared');
+
+// Conversations in <dataDir>/roberto.sqlite, using the SQLite built into
+// Node.js 22.13 and later, so there is nothing to install or compile.
+// Message details (latency, provider, model, tool calls...) are kept as JSON.
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS conversations (
+    id TEXT PRIMARY KEY,
+    persona_id TEXT,
+    origin TEXT,
+    language TEXT,
+    started_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS conversations_updated_at ON conversations (updated_at);
+
+  CREATE TABLE IF NOT EXISTS messages (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    conversation_id TEXT NOT NULL,
+    role TEXT NOT NULL,
+    content TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    details TEXT NOT NULL DEFAULT '{}'
+  );
+  CREATE INDEX IF NOT EXISTS messages_conversation_id ON messages (conversation_id, id);
+`;
+
+const toSummary = (row) => ({
+  id: row.id,
+  personaId: row.persona_id,
+  origin: row.origin,
+  language: row.language,
+  startedAt: row.started_at,
+  updatedAt: row.updated_at,
+  messageCount: row.message_count,
+  preview: row.preview || '',
+});
+
+const toMessage = (row) => ({
+  role: row.role,
+  content: row.content,
+  createdAt: row.created_at,
+  ...JSON.parse(row.details),
+});
+
+// WHERE clause and parameters for a filter (see shared.js). The search is
+// case-insensitive for ASCII letters only, as SQLite's lower() is.
+function whereOf({ query, personaId, from, to } = {}) {
+  const conditions = [];
+  const params = [];
+  if (personaId) {
+    conditions.push('c.persona_id = ?');
+    params.push(personaId);
+  }
+  if (from) {
+    conditions.push('c.updated_at >= ?');
+    params.push(from);
+  }
+  if (to) {
+    conditions.push('c.updated_at <= ?');
+    params.push(to);
+  }
+  if (query) {
+    conditions.push('EXISTS (SELECT 1 FROM messages m WHERE m.conversation_id = c.id AND instr(lower(m.content), lower(?)) > 0)');
+    params.push(query);
+  }
+  return { where: conditions.length ? `WHERE ${conditions.join(' AND ')}` : '', params };
+}
+
+function createSqliteStore({ dataDir }) {
+  let DatabaseSync;
+  try {
+    ({ DatabaseSync } = require('node:sqlite'));
+  } catch (error) {
+    throw new Error(`STORE_ENGINE=sqlite needs Node.js 22.13 or later (this is ${process.version}). Use STORE_ENGINE=file instead`);
+  }
+
+  fs.mkdirSync(dataDir, { recursive: true });
+  const db = new DatabaseSync(path.join(dataDir, 'roberto.sqlite'));
+  db.exec(SCHEMA);
+
+  const statements = {
+    insertConversation: db.prepare(`
+      INSERT INTO conversations (id, persona_id, origin, language, started_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT (id) DO UPDATE SET updated_at = excluded.updated_at, language = COALESCE(excluded.language, language)
+    `),
+    insertMessage: db.prepare('INSERT INTO messages (conversation_id, role, content, created_at, details) VALUES (?, ?, ?, ?, ?)'),
+    conversation: db.prepare('SELECT * FROM conversations WHERE id = ?'),
+    messages: db.prepare('SELECT * FROM messages WHERE conversation_id = ? ORDER BY id'),
+    deleteMessages: db.prepare('DELETE FROM messages WHERE conversation_id = ?'),
+    deleteConversation: db.prepare('DELETE FROM conversations WHERE id = ?'),
+    purgeMessages: db.prepare('DELETE FROM messages WHERE conversation_id IN (SELECT id FROM conversations WHERE updated_at < ?)'),
+    purgeConversations: db.prepare('DELETE FROM conversations WHERE updated_at < ?'),
+  };
+
+  const transaction = (work) => {
+    db.exec('BEGIN');
+    try {
+      const result = work();
+      db.exec('COMMIT');
+      return result;
+    } catch (error) {
+      db.exec('ROLLBACK');
+      throw error;
+    }
+  };
+
+  return {
+    name: 'sqlite',
+
+    async addMessages(conversationId, session, messages) {
+      const now = new Date().toISOString();
+      transaction(() => {
+        statements.insertConversation.run(
+          conversationId,
+          session.personaId || null,
+          session.origin || null,
+          session.language || null,
+          messages[0]?.createdAt || now,
+          now,
+        );
+        for (const { role, content, createdAt, ...details } of messages) {
+          statements.insertMessage.run(conversationId, role, content, createdAt, JSON.stringify(details));
+        }
+      });
+    },
+
+    async listConversations(filter = {}) {
+      const { where, params } = whereOf(filter);
+      const { total } = db.prepare(`SELECT count(*) AS total FROM conversations c ${where}`).get(...params);
+      const rows = db.prepare(`
+        SELECT c.*,
+          (SELECT count(*) FROM messages m WHERE m.conversation_id = c.id) AS message_count,
+          (SELECT substr(m.content, 1, ${PREVIEW_CHARS}) FROM messages m
+            WHERE m.conversation_id = c.id AND m.role = 'user' ORDER BY m.id LIMIT 1) AS preview
+        FROM conversations c ${where}
+        ORDER BY c.updated_at DESC
+        LIMIT ? OFFSET ?
+      `).all(...params, filter.limit ?? -1, filter.offset || 0);
+      return { total, conversations: rows.map(toSummary) };
+    },
+
+    async getConversation(id) {
+      const row = statements.conversation.get(id);
+      if (!row) return null;
+      const { messageCount, preview, ...details } = toSummary(row);
+      return { ...details, messages: statements.messages.all(id).map(toMessage) };
+    },
+
+    async deleteConversation(id) {
+      return transaction(() => {
+        statements.deleteMessages.run(id);
+        return statements.deleteConversation.run(id).changes > 0;
+      });
+    },
+
+    async purge(before) {
+      return transaction(() => {
+        statements.purgeMessages.run(before);
+        return Number(statements.purgeConversations.run(before).changes);
+      });
+    },
+  };
+}
+
+module.exports = { createSqliteStore };
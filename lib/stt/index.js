@@ -0,0 +1,32 @@
+const { createOpenAITranscriber } = require('./openai');
+const { createWhisperCppTranscriber } = require('./whisper-cpp');
+const { createMockTranscriber } = require('./mock');
+
+const TRANSCRIBERS = {
+  openai: createOpenAITranscriber,
+  'whisper-cpp': createWhisperCppTranscriber,
+  mock: createMockTranscriber,
+};
+
+// Builds the speech-to-text engine selected by STT_ENGINE. Every engine exposes:
+//   transcribe(audio, options) -> { text }
+// where audio is a Buffer and options may carry `mimeType`, `language` and a `signal`.
+function createTranscriber(env = process.env) {
+  const name = (env.STT_ENGINE || 'openai').toLowerCase();
+  const factory = TRANSCRIBERS[name];
+
+  if (!factory) {
+    throw new Error(`Unknown STT_ENGINE "${name}". Use one of: ${Object.keys(TRANSCRIBERS).join(', ')}`);
+  }
+
+  return factory({
+    apiKey: env.STT_API_KEY || env.OPENAI_API_KEY,
+    baseUrl: env.STT_BASE_URL?.replace(/\/+$/, ''),
+    model: env.STT_MODEL,
+    binary: env.WHISPER_CPP_BINARY,
+    modelPath: env.WHISPER_CPP_MODEL,
+    ffmpeg: env.FFMPEG_PATH,
+  });
+}
+
+module.exports = { createTranscriber };
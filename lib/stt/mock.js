@@ -0,0 +1,14 @@
+// Transcriber for local development and tests: reports how much audio it got
+// instead of what was said, so the whole capture path can be checked without
+// a speech engine.
+function createMockTranscriber() {
+  return {
+    name: 'mock',
+
+    async transcribe(audio) {
+      return { text: `Mock transcript of ${audio.length} bytes of audio` };
+    },
+  };
+}
+
+module.exports = { createMockTranscriber };
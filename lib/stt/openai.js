@@ -0,0 +1,46 @@
+const { ensureOk } = require('../providers/shared');
+
+// File extensions the transcription API recognises, by recorded MIME type
+const EXTENSIONS = {
+  'audio/webm': 'webm',
+  'audio/ogg': 'ogg',
+  'audio/mp4': 'mp4',
+  'audio/mpeg': 'mp3',
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+};
+
+// OpenAI's /audio/transcriptions, or any server that implements it
+// (faster-whisper-server, whisper.cpp's OpenAI-compatible mode, LocalAI)
+function createOpenAITranscriber(config) {
+  const baseUrl = config.baseUrl || 'https://api.openai.com/v1';
+
+  if (!config.apiKey && !config.baseUrl) {
+    throw new Error('STT_API_KEY (or OPENAI_API_KEY) is not set');
+  }
+
+  return {
+    name: 'openai',
+
+    async transcribe(audio, options = {}) {
+      const mimeType = (options.mimeType || 'audio/webm').split(';')[0];
+      const form = new FormData();
+      form.append('file', new Blob([audio], { type: mimeType }), `audio.${EXTENSIONS[mimeType] || 'webm'}`);
+      form.append('model', config.model || 'whisper-1');
+      if (options.language) form.append('language', options.language);
+
+      const response = await fetch(`${baseUrl}/audio/transcriptions`, {
+        method: 'POST',
+        signal: options.signal,
+        headers: config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {},
+        body: form,
+      });
+
+      await ensureOk(response, 'OpenAI');
+      const data = await response.json();
+      return { text: (data.text || '').trim() };
+    },
+  };
+}
+
+module.exports = { createOpenAITranscriber };
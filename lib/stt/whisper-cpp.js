@@ -0,0 +1,54 @@
+const fs = require('fs/promises');
+const os = require('os');
+const path = require('path');
+const { execFile } = require('child_process');
+const { promisify } = require('util');
+const { ProviderError } = require('../providers/shared');
+
+const run = promisify(execFile);
+
+// Longest a single transcription may take before it is abandoned
+const TIMEOUT_MS = 60 * 1000;
+
+// Runs a local whisper.cpp build. Browsers record WebM/Ogg, so ffmpeg first
+// converts the audio to the 16 kHz mono WAV whisper.cpp expects.
+function createWhisperCppTranscriber(config) {
+  if (!config.modelPath) {
+    throw new Error('WHISPER_CPP_MODEL must point to a ggml model file');
+  }
+  const binary = config.binary || 'whisper-cli';
+  const ffmpeg = config.ffmpeg || 'ffmpeg';
+
+  return {
+    name: 'whisper.cpp',
+
+    async transcribe(audio, options = {}) {
+      const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'roberto-stt-'));
+      const input = path.join(dir, 'input');
+      const wav = path.join(dir, 'audio.wav');
+      const runOptions = { signal: options.signal, timeout: TIMEOUT_MS, maxBuffer: 1024 * 1024 };
+
+      try {
+        await fs.writeFile(input, audio);
+        await run(ffmpeg, ['-loglevel', 'error', '-i', input, '-ar', '16000', '-ac', '1', wav], runOptions);
+
+        const { stdout } = await run(binary, [
+          '-m', config.modelPath,
+          '-f', wav,
+          '-l', options.language || 'auto',
+          '--no-timestamps',
+          '--no-prints',
+        ], runOptions);
+
+        return { text: stdout.replace(/\s+/g, ' ').trim() };
+      } catch (error) {
+        if (error.name === 'AbortError') throw error;
+        throw new ProviderError('whisper.cpp', 502, error.stderr || error.message);
+      } finally {
+        await fs.rm(dir, { recursive: true, force: true });
+      }
+    },
+  };
+}
+
+module.exports = { createWhisperCppTranscriber };
@@ -0,0 +1,67 @@
+// Tools are defined and executed in the browser. The server only forwards their
+// definitions to the model and keeps the resulting calls and results in the
+// conversation history.
+const TOOL_NAME_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+const MAX_TOOLS = 20;
+const MAX_DESCRIPTION_LENGTH = 1024;
+const MAX_RESULT_LENGTH = 4000;
+
+function sanitizeTools(tools) {
+  if (!Array.isArray(tools)) return [];
+
+  return tools
+    .filter(tool => tool && TOOL_NAME_PATTERN.test(tool.name))
+    .slice(0, MAX_TOOLS)
+    .map(tool => ({
+      name: tool.name,
+      description: String(tool.description || '').slice(0, MAX_DESCRIPTION_LENGTH),
+      parameters: tool.parameters && typeof tool.parameters === 'object'
+        ? tool.parameters
+        : { type: 'object', properties: {} },
+    }));
+}
+
+function stringifyResult(result) {
+  const text = typeof result === 'string' ? result : JSON.stringify(result ?? null);
+  return text.slice(0, MAX_RESULT_LENGTH);
+}
+
+// Turns the results the widget posts back into tool messages, keeping only
+// results for calls the model actually made in its last reply
+function toolResultMessages(history, toolResults) {
+  const lastReply = [...history].reverse().find(m => m.role === 'assistant');
+  const calls = new Map((lastReply?.toolCalls || []).map(call => [call.id, call]));
+
+  return toolResults
+    .filter(result => result && calls.has(result.id))
+    .map(result => ({
+      role: 'tool',
+      toolCallId: result.id,
+      name: calls.get(result.id).name,
+      content: stringifyResult(result.result),
+    }));
+}
+
+// Model APIs reject a tool call without a matching result. Calls that end the
+// turn in the browser (e.g. navigating away) never report back, so answer them here.
+function fillMissingToolResults(messages) {
+  const filled = [];
+
+  messages.forEach((message, index) => {
+    filled.push(message);
+    if (message.role !== 'assistant' || !message.toolCalls) return;
+
+    const answered = new Set();
+    for (let i = index + 1; i < messages.length && messages[i].role === 'tool'; i++) {
+      answered.add(messages[i].toolCallId);
+    }
+    const missing = message.toolCalls.filter(call => !answered.has(call.id));
+    for (const call of missing) {
+      filled.push({ role: 'tool', toolCallId: call.id, name: call.name, content: '{"status":"done"}' });
+    }
+  });
+
+  return filled;
+}
+
+module.exports = { sanitizeTools, toolResultMessages, fillMissingToolResults };
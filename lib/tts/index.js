@@ -0,0 +1,34 @@
+const { createOpenAISynthesizer } = require('./openai');
+const { createPiperSynthesizer, createEspeakSynthesizer } = require('./local');
+const { createMockSynthesizer } = require('./mock');
+
+const SYNTHESIZERS = {
+  openai: createOpenAISynthesizer,
+  piper: createPiperSynthesizer,
+  espeak: createEspeakSynthesizer,
+  mock: createMockSynthesizer,
+};
+
+// Builds the text-to-speech engine selected by TTS_ENGINE. Every engine exposes:
+//   synthesize(text, options) -> { contentType, audio }
+// where audio is an async iterable of byte chunks and options may carry a
+// `voice`, the `language` as a BCP-47 tag and a `signal`.
+function createSynthesizer(env = process.env) {
+  const name = (env.TTS_ENGINE || 'openai').toLowerCase();
+  const factory = SYNTHESIZERS[name];
+
+  if (!factory) {
+    throw new Error(`Unknown TTS_ENGINE "${name}". Use one of: ${Object.keys(SYNTHESIZERS).join(', ')}`);
+  }
+
+  return factory({
+    apiKey: env.TTS_API_KEY || env.OPENAI_API_KEY,
+    baseUrl: env.TTS_BASE_URL?.replace(/\/+$/, ''),
+    model: env.TTS_MODEL,
+    voice: env.TTS_VOICE,
+    binary: env.TTS_BINARY,
+    modelPath: env.PIPER_MODEL,
+  });
+}
+
+module.exports = { createSynthesizer };
@@ -0,0 +1,70 @@
+const fs = require('fs/promises');
+const os = require('os');
+const path = require('path');
+const { execFile } = require('child_process');
+const { ProviderError } = require('../providers/shared');
+
+// Longest a single synthesis may take before it is abandoned
+const TIMEOUT_MS = 30 * 1000;
+
+// Runs a command with `input` on stdin and resolves with its stdout as a Buffer
+function run(command, args, input, signal) {
+  return new Promise((resolve, reject) => {
+    const child = execFile(command, args, {
+      encoding: 'buffer',
+      maxBuffer: 32 * 1024 * 1024,
+      timeout: TIMEOUT_MS,
+      signal,
+    }, (error, stdout, stderr) => {
+      if (error) {
+        if (error.name === 'AbortError') return reject(error);
+        return reject(new ProviderError(path.basename(command), 502, stderr.toString() || error.message));
+      }
+      resolve(stdout);
+    });
+    child.stdin.on('error', () => {});
+    child.stdin.end(input);
+  });
+}
+
+// Piper (https://github.com/rhasspy/piper): natural sounding neural voices that run on a CPU
+function createPiperSynthesizer(config) {
+  if (!config.modelPath) {
+    throw new Error('PIPER_MODEL must point to a Piper .onnx voice');
+  }
+  const binary = config.binary || 'piper';
+
+  return {
+    name: 'piper',
+
+    async synthesize(text, options = {}) {
+      const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'roberto-tts-'));
+      const output = path.join(dir, 'speech.wav');
+
+      try {
+        await run(binary, ['--model', config.modelPath, '--output_file', output], text, options.signal);
+        return { contentType: 'audio/wav', audio: [await fs.readFile(output)] };
+      } finally {
+        await fs.rm(dir, { recursive: true, force: true });
+      }
+    },
+  };
+}
+
+// eSpeak NG: robotic but tiny and available in most Linux package managers
+function createEspeakSynthesizer(config) {
+  const binary = config.binary || 'espeak-ng';
+
+  return {
+    name: 'espeak',
+
+    async synthesize(text, options = {}) {
+      // eSpeak names its voices after languages ("es", "pt-br")
+      const voice = options.voice || config.voice || options.language?.toLowerCase();
+      const args = ['--stdout', '--stdin', ...(voice ? ['-v', voice] : [])];
+      return { contentType: 'audio/wav', audio: [await run(binary, args, text, options.signal)] };
+    },
+  };
+}
+
+module.exports = { createPiperSynthesizer, createEspeakSynthesizer };
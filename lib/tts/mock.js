@@ -0,0 +1,36 @@
+const SAMPLE_RATE = 8000;
+
+// Synthesizer for local development and tests: a quiet tone about as long as
+// the text would take to say, so playback, queueing and cancelling can be
+// checked without a speech engine.
+function createMockSynthesizer() {
+  return {
+    name: 'mock',
+
+    async synthesize(text) {
+      const words = text.split(/\s+/).filter(Boolean).length;
+      const samples = Math.round(Math.min(0.3 * words, 10) * SAMPLE_RATE);
+      const wav = Buffer.alloc(44 + samples * 2);
+
+      wav.write('RIFF', 0);
+      wav.writeUInt32LE(36 + samples * 2, 4);
+      wav.write('WAVEfmt ', 8);
+      wav.writeUInt32LE(16, 16);
+      wav.writeUInt16LE(1, 20); // PCM
+      wav.writeUInt16LE(1, 22); // mono
+      wav.writeUInt32LE(SAMPLE_RATE, 24);
+      wav.writeUInt32LE(SAMPLE_RATE * 2, 28);
+      wav.writeUInt16LE(2, 32);
+      wav.writeUInt16LE(16, 34);
+      wav.write('data', 36);
+      wav.writeUInt32LE(samples * 2, 40);
+      for (let i = 0; i < samples; i++) {
+        wav.writeInt16LE(Math.round(Math.sin(2 * Math.PI * 440 * i / SAMPLE_RATE) * 2000), 44 + i * 2);
+      }
+
+      return { contentType: 'audio/wav', audio: [wav] };
+    },
+  };
+}
+
+module.exports = { createMockSynthesizer };
@@ -0,0 +1,37 @@
+const { ensureOk } = require('../providers/shared');
+
+// OpenAI's /audio/speech, or any server that implements it (Kokoro-FastAPI,
+// openedai-speech, LocalAI). The audio is passed on as it arrives.
+function createOpenAISynthesizer(config) {
+  const baseUrl = config.baseUrl || 'https://api.openai.com/v1';
+
+  if (!config.apiKey && !config.baseUrl) {
+    throw new Error('TTS_API_KEY (or OPENAI_API_KEY) is not set');
+  }
+
+  return {
+    name: 'openai',
+
+    async synthesize(text, options = {}) {
+      const response = await fetch(`${baseUrl}/audio/speech`, {
+        method: 'POST',
+        signal: options.signal,
+        headers: {
+          'Content-Type': 'application/json',
+          ...(config.apiKey && { 'Authorization': `Bearer ${config.apiKey}` }),
+        },
+        body: JSON.stringify({
+          model: config.model || 'tts-1',
+          voice: options.voice || config.voice || 'alloy',
+          input: text,
+          response_format: 'mp3',
+        }),
+      });
+
+      await ensureOk(response, 'OpenAI');
+      return { contentType: response.headers.get('Content-Type') || 'audio/mpeg', audio: response.body };
+    },
+  };
+}
+
+module.exports = { createOpenAISynthesizer };
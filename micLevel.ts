@@ -0,0 +1,79 @@
+import { useEffect, useRef } from "react"
+import { robertoLog } from "./robertoEvents"
+
+/**
+ * Live microphone loudness for visualisers. The overlay uses it to size its
+ * rings and waves while the visitor talks, so they can see Roberto hears them.
+ *
+ *   useMicLevel(voice.isListening, (level) => meter.style.setProperty("--level", String(level)))
+ *
+ * onLevel is called once per animation frame with a value from 0 (silence)
+ * to 1 (shouting), outside of React rendering, and with 0 when it stops.
+ */
+
+// Loudness of a block of samples (root mean square)
+export const rootMeanSquare = (samples: Float32Array) => {
+  let sum = 0
+  for (const sample of samples) sum += sample * sample
+  return Math.sqrt(sum / samples.length)
+}
+
+// Maps RMS onto 0..1 so room noise stays near 0 and normal speech fills most of the range
+const toLevel = (rms: number) => Math.min(1, Math.max(0, (Math.sqrt(rms) - 0.08) * 2.5))
+
+// How much of the previous level is kept when the input gets quieter (falls slower than it rises)
+const RELEASE = 0.85
+
+export function useMicLevel(active: boolean, onLevel: (level: number) => void) {
+  const onLevelRef = useRef(onLevel)
+  onLevelRef.current = onLevel
+
+  useEffect(() => {
+    if (!active || typeof window === "undefined" || !navigator.mediaDevices?.getUserMedia) return
+
+    let stopped = false
+    let frame = 0
+    let stream: MediaStream | null = null
+    let audioContext: AudioContext | null = null
+
+    navigator.mediaDevices
+      .getUserMedia({ audio: { echoCancellation: true, noiseSuppression: true } })
+      .then((micStream) => {
+        stream = micStream
+        if (stopped) {
+          micStream.getTracks().forEach(track => track.stop())
+          return
+        }
+
+        const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext
+        audioContext = new AudioContextClass()
+        const analyser = audioContext.createAnalyser()
+        analyser.fftSize = 1024
+        audioContext.createMediaStreamSource(micStream).connect(analyser)
+        audioContext.resume()
+
+        const samples = new Float32Array(analyser.fftSize)
+        let level = 0
+        const tick = () => {
+          analyser.getFloatTimeDomainData(samples)
+          const current = toLevel(rootMeanSquare(samples))
+          level = current > level ? current : level * RELEASE + current * (1 - RELEASE)
+          onLevelRef.current(level)
+          frame = requestAnimationFrame(tick)
+        }
+        tick()
+      })
+      .catch((error) => {
+        // Recognition reports microphone problems; the visualiser just stays still
+        robertoLog.warn("Microphone level unavailable:", error)
+      })
+
+    return () => {
+      stopped = true
+      cancelAnimationFrame(frame)
+      stream?.getTracks().forEach(track => track.stop())
+      audioContext?.close()
+      onLevelRef.current(0)
+    }
+  }, [active])
+}
@@ -0,0 +1,152 @@
+import { robertoLog } from "./robertoEvents"
+
+/**
+ * Requests to the Roberto backend, with the optional site token and the
+ * structured errors the server answers with ({ error, code, retryAfter }).
+ */
+
+// Codes that mean "fetch a (new) site token and try again"
+const TOKEN_ERRORS = ["token_required", "token_expired", "token_invalid"]
+
+// A rejection from the backend, e.g. code "rate_limited" or "message_too_long"
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public code: string,
+    public retryAfter?: number
+  ) {
+    super(message)
+    this.name = "ApiError"
+  }
+}
+
+export const readApiError = async (response: Response) => {
+  const data = await response.json().catch(() => ({}))
+  robertoLog.error("API Error:", data)
+  return new ApiError(
+    data.error || `API returned status ${response.status}`,
+    response.status,
+    data.code || "http_error",
+    data.retryAfter
+  )
+}
+
+// Site tokens by token endpoint, shared by every widget on the page
+const siteTokens = new Map<string, Promise<string | null>>()
+
+const requestSiteToken = async (tokenEndpoint: string) => {
+  const response = await fetch(tokenEndpoint, { mode: "cors", credentials: "omit" })
+  if (!response.ok) return null
+  return (await response.json()).token || null
+}
+
+/**
+ * fetch() for the backend's routes. When the server asks for a site token it
+ * gets one from /api/token next to the route and retries once.
+ */
+export async function fetchWithSiteToken(url: string, init: RequestInit = {}): Promise<Response> {
+  const tokenEndpoint = new URL("./token", url).href
+  const send = (token: string | null) => fetch(url, {
+    mode: "cors",
+    credentials: "omit",
+    ...init,
+    headers: { ...init.headers as Record<string, string>, ...(token && { "Authorization": `Bearer ${token}` }) },
+  })
+
+  const sentToken = siteTokens.get(tokenEndpoint)
+  const response = await send(await (sentToken ?? null))
+  if (response.status !== 401) return response
+
+  const { code } = await response.clone().json().catch(() => ({}))
+  if (!TOKEN_ERRORS.includes(code)) return response
+
+  // Requests that failed together share one new token
+  let token = siteTokens.get(tokenEndpoint)
+  if (!token || token === sentToken) {
+    token = requestSiteToken(tokenEndpoint).catch(() => null)
+    siteTokens.set(tokenEndpoint, token)
+  }
+  return send(await token)
+}
+
+// What went wrong, in terms of what Roberto can tell the visitor
+export type ErrorCategory = "offline" | "rate_limited" | "server_error" | "not_understood"
+
+// Requests the server turned down because of what was sent. Any other 4xx (a
+// blocked site, a missing persona, a misconfigured backend) isn't the visitor's doing.
+const VALIDATION_CODES = [
+  "message_required",
+  "invalid_message",
+  "message_too_long",
+  "system_prompt_too_long",
+  "no_matching_tool_call",
+  "invalid_json",
+  "request_too_large",
+  "audio_required",
+  "text_required",
+  "text_too_long",
+]
+
+// Network failures are ApiErrors with status 0 and code "network_error" (see fetchWithRetry)
+export function errorCategory(error: unknown): ErrorCategory {
+  if (!(error instanceof ApiError)) return "server_error"
+  if (error.code === "network_error") return "offline"
+  if (error.status === 429) return "rate_limited"
+  if (VALIDATION_CODES.includes(error.code)) return "not_understood"
+  return "server_error"
+}
+
+export interface RetryPolicy {
+  // Further attempts after a 429 or 5xx answer
+  retries: number
+  // Wait before the first retry in milliseconds, doubled for each one after it
+  baseDelay: number
+}
+
+// A Retry-After longer than this is reported to the visitor instead of waited out
+const MAX_RETRY_AFTER_MS = 10000
+
+const isRetryable = (status: number) => status === 429 || status >= 500
+
+// Resolves after ms, or rejects as soon as the signal aborts
+const wait = (ms: number, signal?: AbortSignal | null) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(signal.reason)
+  const timer = setTimeout(() => {
+    signal?.removeEventListener("abort", onAbort)
+    resolve()
+  }, ms)
+  const onAbort = () => {
+    clearTimeout(timer)
+    reject(signal!.reason)
+  }
+  signal?.addEventListener("abort", onAbort, { once: true })
+})
+
+/**
+ * fetchWithSiteToken() that tries again after 429 and 5xx answers, with
+ * exponential backoff or the server's Retry-After. The last answer is
+ * returned as is; a request that never reached the server rejects with an
+ * ApiError coded "network_error".
+ */
+export async function fetchWithRetry(url: string, init: RequestInit, policy: RetryPolicy): Promise<Response> {
+  for (let attempt = 0; ; attempt++) {
+    let response: Response
+    try {
+      response = await fetchWithSiteToken(url, init)
+    } catch (error) {
+      if ((error as Error).name === "AbortError" || init.signal?.aborted) throw error
+      throw new ApiError((error as Error).message, 0, "network_error")
+    }
+
+    if (!isRetryable(response.status) || attempt >= policy.retries) return response
+
+    // Read from the body: cross-origin pages can't see the Retry-After header
+    const { retryAfter = 0 } = await response.clone().json().catch(() => ({}))
+    if (retryAfter * 1000 > MAX_RETRY_AFTER_MS) return response
+
+    const delay = Math.max(retryAfter * 1000, policy.baseDelay * 2 ** attempt)
+    robertoLog.warn(`Request failed with status ${response.status}, retrying in ${delay} ms`)
+    await wait(delay, init.signal)
+  }
+}
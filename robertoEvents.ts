@@ -0,0 +1,94 @@
+import type { KnowledgeSource } from "./useRobertoVoice"
+import type { ErrorCategory } from "./robertoApi"
+
+/**
+ * What the widget does, for analytics and page code. Every event goes to the
+ * matching callback prop (onOpen, onTranscript, ...) and is also dispatched
+ * on window as a CustomEvent named "roberto:<event>", so sites without access
+ * to the component's props can still listen:
+ *
+ *   window.addEventListener("roberto:response", (e) => gtag("event", "roberto_reply", e.detail))
+ *
+ * Logging goes through robertoLog, which stays silent unless debug is on.
+ */
+
+export interface RobertoEventMap {
+  // The overlay opened, to talk or to type
+  open: { mode: "voice" | "text" }
+  close: {}
+  // A turn the visitor said or typed was sent
+  transcript: { text: string; source: "voice" | "text"; conversationId: string }
+  // Roberto's complete reply to a turn
+  response: { text: string; sources: KnowledgeSource[]; conversationId: string }
+  speakstart: {}
+  // interrupted when the visitor talked over Roberto or speech was cancelled
+  speakend: { interrupted: boolean }
+  // code is the server's error code (see README) or the speech recognition error;
+  // chat errors also carry a category: offline, rate_limited, server_error or not_understood
+  error: { message: string; code: string; category?: ErrorCategory; source: "chat" | "recognition" }
+}
+
+export type RobertoEventName = keyof RobertoEventMap
+
+export interface RobertoCallbacks {
+  onOpen?: (event: RobertoEventMap["open"]) => void
+  onClose?: (event: RobertoEventMap["close"]) => void
+  onTranscript?: (event: RobertoEventMap["transcript"]) => void
+  onResponse?: (event: RobertoEventMap["response"]) => void
+  onSpeakStart?: (event: RobertoEventMap["speakstart"]) => void
+  onSpeakEnd?: (event: RobertoEventMap["speakend"]) => void
+  onError?: (event: RobertoEventMap["error"]) => void
+}
+
+const CALLBACK_NAMES: { [K in RobertoEventName]: keyof RobertoCallbacks } = {
+  open: "onOpen",
+  close: "onClose",
+  transcript: "onTranscript",
+  response: "onResponse",
+  speakstart: "onSpeakStart",
+  speakend: "onSpeakEnd",
+  error: "onError",
+}
+
+// Console output is page-wide (the helper modules log too), so it stays on while
+// any widget asks for it: a widget with debug off doesn't silence another one
+const debugOwners = new Set<object>()
+let debugEnabled = false
+
+// Owner for callers outside a widget
+const PAGE = {}
+
+// Turns console output on or off for one owner, usually a widget's hook instance
+export const setDebugLogging = (enabled: boolean, owner: object = PAGE) => {
+  if (enabled) debugOwners.add(owner)
+  else debugOwners.delete(owner)
+  debugEnabled = debugOwners.size > 0
+}
+
+export const robertoLog = {
+  info: (...args: unknown[]) => debugEnabled && console.log(...args),
+  warn: (...args: unknown[]) => debugEnabled && console.warn(...args),
+  error: (...args: unknown[]) => debugEnabled && console.error(...args),
+}
+
+// Calls the callback for an event, then announces it on window
+export function emitRobertoEvent<K extends RobertoEventName>(
+  name: K,
+  detail: RobertoEventMap[K],
+  callbacks: RobertoCallbacks = {}
+) {
+  const callbackName = CALLBACK_NAMES[name]
+  const callback = callbacks[callbackName] as ((event: RobertoEventMap[K]) => void) | undefined
+
+  // A failing handler must not break the conversation
+  try {
+    callback?.(detail)
+  } catch (error) {
+    robertoLog.error(`${callbackName} failed:`, error)
+  }
+
+  robertoLog.info(`roberto:${name}`, detail)
+  if (typeof window !== "undefined") {
+    window.dispatchEvent(new CustomEvent(`roberto:${name}`, { detail }))
+  }
+}
@@ -0,0 +1,405 @@
+/**
+ * Replies come from the model as Markdown. They are shown and spoken
+ * differently:
+ *
+ *   parseMarkdown(reply)          blocks and inline runs for the transcript to render,
+ *                                 with only http(s), mailto, tel and same-site links
+ *   toSpeech(reply, options)      the same reply as something a voice can read out
+ *   new SpeechFormatter(options)  likewise for a streamed reply, sentence by sentence
+ *
+ * Spoken text has no Markdown, links are reduced to their text (or a bare
+ * URL to its site), code is replaced by a short notice, and numbers and
+ * abbreviations are written out where voices stumble over them. With
+ * `pauses` on, headings, list items and paragraphs are separated by
+ * <break time="400ms"/> marks that the hook turns into silence.
+ */
+
+// ---------------------------------------------------------------------------
+// Display
+
+export type MarkdownInline =
+  | { type: "text"; text: string }
+  | { type: "strong" | "em" | "strike"; children: MarkdownInline[] }
+  | { type: "code"; text: string }
+  // href is null when the link can't be trusted, then only its text is shown
+  | { type: "link"; href: string | null; children: MarkdownInline[] }
+
+export type MarkdownBlock =
+  | { type: "paragraph"; children: MarkdownInline[] }
+  | { type: "heading"; level: number; children: MarkdownInline[] }
+  | { type: "list"; ordered: boolean; start: number; items: MarkdownInline[][] }
+  | { type: "quote"; children: MarkdownInline[] }
+  | { type: "code"; language: string; text: string }
+  | { type: "table"; header: MarkdownInline[][]; rows: MarkdownInline[][][] }
+  | { type: "rule" }
+
+const FENCE = /^\s{0,3}(`{3,}|~{3,})\s*([\w+#.-]*)/
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/
+const RULE = /^\s{0,3}([-*_])(?:\s*\1){2,}\s*$/
+const QUOTE = /^\s{0,3}>\s?/
+const LIST_ITEM = /^\s*(?:([-*+])|(\d{1,9})[.)])\s+(?:\[[ xX]\]\s+)?/
+const TABLE_DIVIDER = /^\s*\|?\s*:?-{3,}:?\s*(?:\|\s*:?-{3,}:?\s*)*\|?\s*$/
+
+const isTableRow = (line: string) => line.trim().startsWith("|") || /\S\s*\|\s*\S/.test(line)
+
+const tableCells = (line: string) =>
+  line.trim().replace(/^\|/, "").replace(/\|$/, "").split("|").map(cell => cell.trim())
+
+const startsBlock = (line: string, next?: string) =>
+  FENCE.test(line) || HEADING.test(line) || RULE.test(line) || QUOTE.test(line) ||
+  LIST_ITEM.test(line) || (next !== undefined && isTableRow(line) && TABLE_DIVIDER.test(next))
+
+// Links the transcript may follow: web, mail and phone links, and paths on this site
+export function safeHref(url: string): string | null {
+  const cleaned = url.replace(/[\u0000-\u0020\u007F]/g, "")
+  if (/^(?:https?:|mailto:|tel:)/i.test(cleaned) || /^(?:\/(?!\/)|#)/.test(cleaned)) return cleaned
+  return null
+}
+
+// Escapes, code spans, images and links, autolinks, bare URLs, bold, italics, strikethrough
+const INLINE = new RegExp([
+  /\\([\\`*_{}[\]()#+\-.!~|>])/.source,
+  /(`+)([^`]|[^`][\s\S]*?[^`])\2(?!`)/.source,
+  /(!?)\[([^\]]*)\]\(\s*<?([^)\s>]*)>?(?:\s+"[^"]*")?\s*\)/.source,
+  /<((?:https?:\/\/|mailto:)[^>\s]+)>/.source,
+  /(https?:\/\/[^\s<]*[^\s<.,:;"')\]!?*_~])/.source,
+  // Strings, as the backreferences count the groups of the whole pattern
+  String.raw`(\*\*|__)(?=\S)([\s\S]*?\S)\9`,
+  String.raw`(\*|_)(?=[^\s*_])([\s\S]*?[^\s\\])\11(?![\w*])`,
+  /~~(?=\S)([\s\S]*?\S)~~/.source,
+].join("|"), "g")
+
+export function parseInline(text: string): MarkdownInline[] {
+  const nodes: MarkdownInline[] = []
+  const addText = (value: string) => {
+    if (!value) return
+    const last = nodes[nodes.length - 1]
+    if (last?.type === "text") last.text += value
+    else nodes.push({ type: "text", text: value })
+  }
+
+  const pattern = new RegExp(INLINE.source, "g")
+  let consumed = 0
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(text))) {
+    // snake_case is not emphasis
+    if (match[11] === "_" && /\w/.test(text[match.index - 1] || "")) {
+      pattern.lastIndex = match.index + 1
+      continue
+    }
+    addText(text.slice(consumed, match.index))
+    consumed = match.index + match[0].length
+
+    if (match[1] !== undefined) addText(match[1])
+    else if (match[2] !== undefined) nodes.push({ type: "code", text: match[3].replace(/^ (.*) $/, "$1") })
+    else if (match[5] !== undefined) {
+      // Images are shown as links to them rather than loaded
+      const label = match[5] || match[6]
+      nodes.push({ type: "link", href: safeHref(match[6]), children: match[4] ? [{ type: "text", text: label }] : parseInline(label) })
+    } else if (match[7] !== undefined || match[8] !== undefined) {
+      const url = match[7] ?? match[8]
+      nodes.push({ type: "link", href: safeHref(url), children: [{ type: "text", text: url.replace(/^mailto:/, "") }] })
+    } else if (match[9] !== undefined) nodes.push({ type: "strong", children: parseInline(match[10]) })
+    else if (match[11] !== undefined) nodes.push({ type: "em", children: parseInline(match[12]) })
+    else nodes.push({ type: "strike", children: parseInline(match[13]) })
+  }
+  addText(text.slice(consumed))
+  return nodes
+}
+
+// Block-level Markdown: paragraphs, headings, lists, quotes, fenced code and
+// tables. A code fence that isn't closed yet (while streaming) runs to the end.
+export function parseMarkdown(markdown: string): MarkdownBlock[] {
+  const lines = markdown.replace(/\r\n?/g, "\n").split("\n")
+  const blocks: MarkdownBlock[] = []
+  let i = 0
+
+  while (i < lines.length) {
+    const line = lines[i]
+
+    const fence = line.match(FENCE)
+    if (fence) {
+      const code: string[] = []
+      for (i += 1; i < lines.length && !lines[i].trim().startsWith(fence[1]); i++) code.push(lines[i])
+      i += 1
+      blocks.push({ type: "code", language: fence[2], text: code.join("\n") })
+      continue
+    }
+    if (!line.trim()) {
+      i += 1
+      continue
+    }
+    if (RULE.test(line)) {
+      blocks.push({ type: "rule" })
+      i += 1
+      continue
+    }
+
+    const heading = line.match(HEADING)
+    if (heading) {
+      blocks.push({ type: "heading", level: heading[1].length, children: parseInline(heading[2]) })
+      i += 1
+      continue
+    }
+
+    if (isTableRow(line) && TABLE_DIVIDER.test(lines[i + 1] || "")) {
+      const header = tableCells(line).map(parseInline)
+      const rows: MarkdownInline[][][] = []
+      for (i += 2; i < lines.length && lines[i].trim() && isTableRow(lines[i]); i++) {
+        rows.push(tableCells(lines[i]).map(parseInline))
+      }
+      blocks.push({ type: "table", header, rows })
+      continue
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = []
+      for (; i < lines.length && QUOTE.test(lines[i]); i++) quoted.push(lines[i].replace(QUOTE, ""))
+      blocks.push({ type: "quote", children: parseInline(quoted.join("\n")) })
+      continue
+    }
+
+    const item = line.match(LIST_ITEM)
+    if (item) {
+      const ordered = item[2] !== undefined
+      const items: string[] = []
+      // Items of the same kind, each with its continuation lines. Nested lists are flattened.
+      while (i < lines.length) {
+        const current = lines[i].match(LIST_ITEM)
+        if (current && (current[2] !== undefined) === ordered) {
+          items.push(lines[i].slice(current[0].length))
+        } else if (!current && lines[i].trim() && /^\s/.test(lines[i]) && items.length) {
+          items[items.length - 1] += `\n${lines[i].trim()}`
+        } else {
+          break
+        }
+        i += 1
+      }
+      blocks.push({ type: "list", ordered, start: ordered ? Number(item[2]) : 1, items: items.map(parseInline) })
+      continue
+    }
+
+    const paragraph = [line]
+    for (i += 1; i < lines.length && lines[i].trim() && !startsBlock(lines[i], lines[i + 1]); i++) {
+      paragraph.push(lines[i])
+    }
+    blocks.push({ type: "paragraph", children: parseInline(paragraph.join("\n")) })
+  }
+
+  return blocks
+}
+
+// ---------------------------------------------------------------------------
+// Speech
+
+export interface SpeechOptions {
+  // BCP-47 tag of the reply, for numbers and abbreviations
+  language: string
+  // Said instead of a code block, e.g. messagesFor(language).codeOnScreen
+  codeNotice?: string
+  // Separate headings, list items and paragraphs with short silences
+  pauses?: boolean
+}
+
+export const PAUSE_MS = 400
+
+// Words for numbers and symbols voices otherwise misread
+interface SpokenWords {
+  to: string
+  and: string
+  thousand: string
+  million: string
+  billion: string
+  number: string
+  times: string
+}
+
+const WORDS: Record<string, SpokenWords> = {
+  en: { to: "to", and: "and", thousand: "thousand", million: "million", billion: "billion", number: "number", times: "times" },
+  es: { to: "a", and: "y", thousand: "mil", million: "millones", billion: "mil millones", number: "número", times: "veces" },
+  fr: { to: "à", and: "et", thousand: "mille", million: "millions", billion: "milliards", number: "numéro", times: "fois" },
+  de: { to: "bis", and: "und", thousand: "tausend", million: "Millionen", billion: "Milliarden", number: "Nummer", times: "mal" },
+  it: { to: "a", and: "e", thousand: "mila", million: "milioni", billion: "miliardi", number: "numero", times: "volte" },
+  pt: { to: "a", and: "e", thousand: "mil", million: "milhões", billion: "bilhões", number: "número", times: "vezes" },
+}
+
+// Abbreviations (as regular expressions) and what to say instead
+const ABBREVIATIONS: Record<string, [string, string][]> = {
+  en: [["[eE]\\.\\s?g\\.", "for example"], ["[iI]\\.\\s?e\\.", "that is"], ["etc\\.", "et cetera"], ["vs\\.?", "versus"], ["approx\\.", "approximately"]],
+  es: [["p\\.\\s?ej\\.", "por ejemplo"], ["etc\\.", "etcétera"], ["aprox\\.", "aproximadamente"]],
+  fr: [["p\\.\\s?ex\\.", "par exemple"], ["c\\.-à-d\\.", "c'est-à-dire"], ["etc\\.", "et cetera"], ["env\\.", "environ"]],
+  de: [["[zZ]\\.\\s?B\\.", "zum Beispiel"], ["d\\.\\s?h\\.", "das heißt"], ["usw\\.", "und so weiter"], ["bzw\\.", "beziehungsweise"], ["ca\\.", "circa"]],
+  it: [["ad es\\.", "ad esempio"], ["ecc\\.", "eccetera"], ["ca\\.", "circa"]],
+  pt: [["p\\.\\s?ex\\.", "por exemplo"], ["etc\\.", "etcétera"], ["aprox\\.", "aproximadamente"]],
+}
+
+const compiledAbbreviations = new Map<string, [RegExp, string][]>()
+
+const abbreviationsFor = (language: string) => {
+  if (!compiledAbbreviations.has(language)) {
+    compiledAbbreviations.set(language, (ABBREVIATIONS[language] || []).map(([source, spoken]) =>
+      [new RegExp(`(^|[^\\p{L}])${source}(?!\\p{L})`, "gu"), `$1${spoken}`]))
+  }
+  return compiledAbbreviations.get(language)!
+}
+
+const primaryLanguage = (tag: string) => tag.split("-")[0].toLowerCase()
+
+// One line or sentence of Markdown as plain text a voice can read
+export function speakableText(markdown: string, language: string): string {
+  const base = primaryLanguage(language)
+  const words = WORDS[base] || WORDS.en
+
+  let text = markdown
+    .replace(/\\([\\`*_{}[\]()#+\-.!~|>])/g, "$1")
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/<((?:https?:\/\/|mailto:)[^>\s]+)>/g, "$1")
+    // A bare URL is read as its site. Like the display rule, punctuation ending the sentence isn't part of it.
+    .replace(/\bhttps?:\/\/(?:www\.)?([^\s/?#<)]+)(?:[^\s<)]*[^\s<.,:;"')\]!?*_~])?/g, "$1")
+    .replace(/\bmailto:/g, "")
+    .replace(/<\/?[a-z][^>]*>/gi, "")
+    .replace(/`+/g, "")
+    .replace(/\*+|~~/g, "")
+    .replace(/(^|[\s(])_+(?=\S)/g, "$1")
+    .replace(/(\S)_+(?=[\s).,!?:;]|$)/g, "$1")
+    .replace(/\p{Extended_Pictographic}\uFE0F?/gu, "")
+    .replace(/\s*\|\s*/g, ", ")
+
+  for (const [pattern, spoken] of abbreviationsFor(base)) text = text.replace(pattern, spoken)
+
+  text = text
+    .replace(/(\d)\s*[–—]\s*(?=\d)/g, `$1 ${words.to} `)
+    .replace(/\b(\d+(?:[.,]\d+)?)\s?(k|K|M|bn)\b/g, (match, amount: string, unit: string) =>
+      `${amount} ${unit === "M" ? words.million : unit === "bn" ? words.billion : words.thousand}`)
+    .replace(/(\d)x\b/g, `$1 ${words.times}`)
+    .replace(/(^|\s)#(\d)/g, `$1${words.number} $2`)
+    .replace(/\s&\s/g, ` ${words.and} `)
+
+  return text.replace(/\s+/g, " ").replace(/\s([.,!?;:])/g, "$1").replace(/^[\s,]+|[\s,]+$/g, "")
+}
+
+// Single letters and these words end in a period without ending the sentence,
+// e.g. "z. B." or "Dr. Smith"
+const NO_SENTENCE_END = /(?:^|[^\p{L}.])(?:\p{L}|\p{L}+(?:\.\p{L}+)+|ej|ex|ca|vs|approx|aprox|Mr|Mrs|Ms|Dr|Prof|Sr|Sra|St|No|Nr)$/u
+
+// Splits complete sentences off a streamed buffer, keeping the unfinished tail
+export const takeSentences = (buffer: string) => {
+  const sentences: string[] = []
+  let consumed = 0
+
+  for (const match of buffer.matchAll(/([.!?…]+["'”’)\]*_]*)\s+/g)) {
+    const end = match.index! + match[1].length
+    if (match[1] === "." && NO_SENTENCE_END.test(buffer.slice(consumed, match.index))) continue
+    const sentence = buffer.slice(consumed, end).trim()
+    if (sentence) sentences.push(sentence)
+    consumed = match.index! + match[0].length
+  }
+
+  return { sentences, rest: buffer.slice(consumed) }
+}
+
+// Length of a line's heading, quote or list marker
+const markerLength = (line: string) => {
+  const marker = line.match(/^\s{0,3}#{1,6}\s+/) || line.match(QUOTE) || line.match(LIST_ITEM)
+  return marker ? marker[0].length : 0
+}
+
+/**
+ * Turns a streamed Markdown reply into speakable sentences as they complete.
+ * push() each chunk and speak what it returns; flush() once the reply is done.
+ */
+export class SpeechFormatter {
+  private line = ""
+  // How much of the current line has been handed out already
+  private spoken = 0
+  private inCode = false
+  private pauseNext = false
+  private started = false
+
+  constructor(private options: SpeechOptions) {}
+
+  push(markdown: string): string[] {
+    const out: string[] = []
+    this.line += markdown
+
+    let newline: number
+    while ((newline = this.line.indexOf("\n")) !== -1) {
+      this.endLine(this.line.slice(0, newline), out)
+      this.line = this.line.slice(newline + 1)
+      this.spoken = 0
+    }
+
+    // Sentences of an unfinished line can go once it's clear what kind of line it is
+    const line = this.line
+    if (!this.inCode && !FENCE.test(line) && !line.trimStart().startsWith("|") && /\S\s/.test(line) && !RULE.test(line)) {
+      const start = Math.max(this.spoken, markerLength(line))
+      const { sentences, rest } = takeSentences(line.slice(start))
+      this.spoken = line.length - rest.length
+      sentences.forEach(sentence => this.emit(sentence, out))
+    }
+    return out
+  }
+
+  flush(): string[] {
+    const out: string[] = []
+    if (this.line) this.endLine(this.line, out)
+    this.line = ""
+    this.spoken = 0
+    this.inCode = false
+    return out
+  }
+
+  private endLine(line: string, out: string[]) {
+    if (FENCE.test(line)) {
+      if (!this.inCode && this.options.codeNotice) {
+        this.pauseNext = true
+        this.emit(this.options.codeNotice, out)
+      }
+      this.inCode = !this.inCode
+      this.pauseNext = true
+      return
+    }
+    if (this.inCode || RULE.test(line) || TABLE_DIVIDER.test(line)) return
+    if (!line.trim()) {
+      this.pauseNext = true
+      return
+    }
+
+    const tableRow = this.spoken === 0 && line.trimStart().startsWith("|")
+    const text = tableRow ? `${tableCells(line).filter(Boolean).join(", ")}.` : line.slice(Math.max(this.spoken, markerLength(line)))
+    const { sentences, rest } = takeSentences(`${text} `)
+    for (const sentence of [...sentences, rest]) this.emit(sentence, out)
+    if (tableRow || markerLength(line) > 0) this.pauseNext = true
+  }
+
+  private emit(markdown: string, out: string[]) {
+    const text = speakableText(markdown, this.options.language)
+    if (!text) return
+    const pause = this.options.pauses && this.pauseNext && this.started
+    out.push(pause ? `<break time="${PAUSE_MS}ms"/> ${text}` : text)
+    this.pauseNext = false
+    this.started = true
+  }
+}
+
+// A whole reply as speakable text
+export function toSpeech(markdown: string, options: SpeechOptions): string {
+  const formatter = new SpeechFormatter(options)
+  return [...formatter.push(markdown), ...formatter.flush()].join(" ")
+}
+
+// Splits speakable text at its <break time="…ms"/> marks
+export function splitPauses(text: string): { text: string; pauseBefore: number }[] {
+  const parts: { text: string; pauseBefore: number }[] = []
+  let pauseBefore = 0
+  for (const piece of text.split(/(<break\s+time="\d+ms"\s*\/>)/)) {
+    const pause = piece.match(/^<break\s+time="(\d+)ms"/)
+    if (pause) {
+      pauseBefore += Number(pause[1])
+    } else if (piece.trim()) {
+      parts.push({ text: piece.trim(), pauseBefore })
+      pauseBefore = 0
+    }
+  }
+  return parts
+}
@@ -0,0 +1,396 @@
+/**
+ * Languages: the BCP-47 tag Roberto listens, speaks and replies in, the
+ * browser voice to use for it, and the widget's UI strings.
+ *
+ * English, Spanish, French, German, Italian and Portuguese are built in.
+ * Add or adjust a language before rendering the widget:
+ *
+ *   registerMessages("nl", { listening: "Luisteren...", send: "Versturen" })
+ *
+ * Missing strings fall back to English. {placeholders} are filled in by format().
+ */
+
+export interface RobertoMessages {
+  // Status pill
+  idleVoice: string
+  idleText: string
+  listening: string
+  thinking: string
+  speaking: string
+  error: string
+  // Status pill in the toggle and push-to-talk interaction modes
+  holdToTalk: string
+  tapToSend: string
+  releaseToSend: string
+  // Transcript and input
+  speakNow: string
+  askAnything: string
+  typeQuestion: string
+  send: string
+  sources: string
+  exportText: string
+  exportJson: string
+  clear: string
+  forget: string
+  copy: string
+  copied: string
+  // Speaker names in exported transcripts
+  transcriptUser: string
+  transcriptAssistant: string
+  // Screen reader labels
+  dialogLabel: string
+  conversationLabel: string
+  toggleAssistant: string
+  switchToTyping: string
+  switchToVoice: string
+  closeAssistant: string
+  speakReplies: string
+  messageInput: string
+  robertoThinking: string
+  // What Roberto says when a request fails
+  rateLimited: string
+  aFew: string
+  tooLong: string
+  notAvailable: string
+  notVerified: string
+  notSetUp: string
+  offline: string
+  serverError: string
+  notUnderstood: string
+  noReply: string
+  // Said instead of reading out a code block
+  codeOnScreen: string
+  // Button label while waiting for the wake phrase
+  wakeListening: string
+}
+
+const en: RobertoMessages = {
+  idleVoice: "Tap the microphone to talk",
+  idleText: "Type your message",
+  listening: "Listening...",
+  thinking: "Processing...",
+  speaking: "Speaking...",
+  error: "Something went wrong",
+  holdToTalk: "Hold the microphone to talk",
+  tapToSend: "Listening... tap again to send",
+  releaseToSend: "Listening... release to send",
+  speakNow: "Speak now...",
+  askAnything: "Ask me anything...",
+  typeQuestion: "Type your question...",
+  send: "Send",
+  sources: "Sources:",
+  exportText: "Export .txt",
+  exportJson: "Export .json",
+  clear: "Clear",
+  forget: "Forget me",
+  copy: "Copy",
+  copied: "Copied",
+  transcriptUser: "You",
+  transcriptAssistant: "Roberto",
+  dialogLabel: "Roberto voice assistant",
+  conversationLabel: "Conversation",
+  toggleAssistant: "Toggle voice assistant",
+  switchToTyping: "Switch to typing",
+  switchToVoice: "Switch to voice",
+  closeAssistant: "Close voice assistant",
+  speakReplies: "Speak replies",
+  messageInput: "Message Roberto",
+  robertoThinking: "Roberto is thinking",
+  rateLimited: "You're going a little fast for me. Please try again in {seconds} seconds.",
+  aFew: "a few",
+  tooLong: "That's a bit long for me. Could you say it more briefly?",
+  notAvailable: "Sorry, I'm not available on this website.",
+  notVerified: "Sorry, I couldn't verify this website. Please reload the page and try again.",
+  notSetUp: "Sorry, I haven't been set up for this website yet.",
+  offline: "I can't reach the internet right now. Please check your connection and try again.",
+  serverError: "Sorry, something went wrong on my side. Please try again in a moment.",
+  notUnderstood: "Sorry, I didn't quite get that. Could you put it another way?",
+  noReply: "I couldn't process that request.",
+  codeOnScreen: "The code is on your screen.",
+  wakeListening: "Listening for “{phrase}”",
+}
+
+const es: RobertoMessages = {
+  idleVoice: "Toca el micrófono para hablar",
+  idleText: "Escribe tu mensaje",
+  listening: "Escuchando...",
+  thinking: "Procesando...",
+  speaking: "Hablando...",
+  error: "Algo salió mal",
+  holdToTalk: "Mantén pulsado el micrófono para hablar",
+  tapToSend: "Escuchando... toca de nuevo para enviar",
+  releaseToSend: "Escuchando... suelta para enviar",
+  speakNow: "Habla ahora...",
+  askAnything: "Pregúntame lo que quieras...",
+  typeQuestion: "Escribe tu pregunta...",
+  send: "Enviar",
+  sources: "Fuentes:",
+  exportText: "Exportar .txt",
+  exportJson: "Exportar .json",
+  clear: "Borrar",
+  forget: "Olvídame",
+  copy: "Copiar",
+  copied: "Copiado",
+  transcriptUser: "Tú",
+  transcriptAssistant: "Roberto",
+  dialogLabel: "Asistente de voz Roberto",
+  conversationLabel: "Conversación",
+  toggleAssistant: "Activar o desactivar el asistente de voz",
+  switchToTyping: "Cambiar a escritura",
+  switchToVoice: "Cambiar a voz",
+  closeAssistant: "Cerrar el asistente de voz",
+  speakReplies: "Leer las respuestas en voz alta",
+  messageInput: "Mensaje para Roberto",
+  robertoThinking: "Roberto está pensando",
+  rateLimited: "Vas un poco rápido para mí. Inténtalo de nuevo en {seconds} segundos.",
+  aFew: "unos",
+  tooLong: "Es un poco largo para mí. ¿Puedes decirlo más brevemente?",
+  notAvailable: "Lo siento, no estoy disponible en este sitio web.",
+  notVerified: "Lo siento, no he podido verificar este sitio web. Recarga la página e inténtalo de nuevo.",
+  notSetUp: "Lo siento, todavía no me han configurado para este sitio web.",
+  offline: "Ahora mismo no tengo conexión a internet. Comprueba tu conexión e inténtalo de nuevo.",
+  serverError: "Lo siento, algo ha fallado por mi parte. Inténtalo de nuevo en un momento.",
+  notUnderstood: "Lo siento, no lo he entendido bien. ¿Puedes decirlo de otra forma?",
+  noReply: "No he podido procesar esa solicitud.",
+  codeOnScreen: "Tienes el código en la pantalla.",
+  wakeListening: "Esperando a oír «{phrase}»",
+}
+
+const fr: RobertoMessages = {
+  idleVoice: "Touchez le micro pour parler",
+  idleText: "Écrivez votre message",
+  listening: "J'écoute...",
+  thinking: "Traitement...",
+  speaking: "Je parle...",
+  error: "Une erreur s'est produite",
+  holdToTalk: "Maintenez le micro appuyé pour parler",
+  tapToSend: "J'écoute... touchez à nouveau pour envoyer",
+  releaseToSend: "J'écoute... relâchez pour envoyer",
+  speakNow: "Parlez maintenant...",
+  askAnything: "Posez-moi une question...",
+  typeQuestion: "Écrivez votre question...",
+  send: "Envoyer",
+  sources: "Sources :",
+  exportText: "Exporter .txt",
+  exportJson: "Exporter .json",
+  clear: "Effacer",
+  forget: "Oubliez-moi",
+  copy: "Copier",
+  copied: "Copié",
+  transcriptUser: "Vous",
+  transcriptAssistant: "Roberto",
+  dialogLabel: "Assistant vocal Roberto",
+  conversationLabel: "Conversation",
+  toggleAssistant: "Activer ou désactiver l'assistant vocal",
+  switchToTyping: "Passer à l'écrit",
+  switchToVoice: "Passer à la voix",
+  closeAssistant: "Fermer l'assistant vocal",
+  speakReplies: "Lire les réponses à voix haute",
+  messageInput: "Message à Roberto",
+  robertoThinking: "Roberto réfléchit",
+  rateLimited: "Vous allez un peu vite pour moi. Réessayez dans {seconds} secondes.",
+  aFew: "quelques",
+  tooLong: "C'est un peu long pour moi. Pouvez-vous le dire plus brièvement ?",
+  notAvailable: "Désolé, je ne suis pas disponible sur ce site.",
+  notVerified: "Désolé, je n'ai pas pu vérifier ce site. Rechargez la page et réessayez.",
+  notSetUp: "Désolé, je n'ai pas encore été configuré pour ce site.",
+  offline: "Je n'arrive pas à accéder à internet. Vérifiez votre connexion et réessayez.",
+  serverError: "Désolé, un problème est survenu de mon côté. Réessayez dans un instant.",
+  notUnderstood: "Désolé, je n'ai pas bien compris. Pouvez-vous le formuler autrement ?",
+  noReply: "Je n'ai pas pu traiter cette demande.",
+  codeOnScreen: "Le code est affiché à l'écran.",
+  wakeListening: "En attente de « {phrase} »",
+}
+
+const de: RobertoMessages = {
+  idleVoice: "Tippe auf das Mikrofon, um zu sprechen",
+  idleText: "Schreib deine Nachricht",
+  listening: "Ich höre zu...",
+  thinking: "Wird verarbeitet...",
+  speaking: "Ich spreche...",
+  error: "Etwas ist schiefgelaufen",
+  holdToTalk: "Halte das Mikrofon gedrückt, um zu sprechen",
+  tapToSend: "Ich höre zu... tippe erneut zum Senden",
+  releaseToSend: "Ich höre zu... zum Senden loslassen",
+  speakNow: "Sprich jetzt...",
+  askAnything: "Frag mich etwas...",
+  typeQuestion: "Schreib deine Frage...",
+  send: "Senden",
+  sources: "Quellen:",
+  exportText: "Als .txt exportieren",
+  exportJson: "Als .json exportieren",
+  clear: "Leeren",
+  forget: "Vergiss mich",
+  copy: "Kopieren",
+  copied: "Kopiert",
+  transcriptUser: "Du",
+  transcriptAssistant: "Roberto",
+  dialogLabel: "Sprachassistent Roberto",
+  conversationLabel: "Unterhaltung",
+  toggleAssistant: "Sprachassistent ein- oder ausschalten",
+  switchToTyping: "Zur Texteingabe wechseln",
+  switchToVoice: "Zur Spracheingabe wechseln",
+  closeAssistant: "Sprachassistent schließen",
+  speakReplies: "Antworten vorlesen",
+  messageInput: "Nachricht an Roberto",
+  robertoThinking: "Roberto denkt nach",
+  rateLimited: "Das geht mir etwas zu schnell. Bitte versuch es in {seconds} Sekunden noch einmal.",
+  aFew: "ein paar",
+  tooLong: "Das ist etwas lang für mich. Kannst du es kürzer sagen?",
+  notAvailable: "Leider bin ich auf dieser Website nicht verfügbar.",
+  notVerified: "Ich konnte diese Website leider nicht überprüfen. Bitte lade die Seite neu und versuch es noch einmal.",
+  notSetUp: "Leider bin ich für diese Website noch nicht eingerichtet.",
+  offline: "Ich habe gerade keine Internetverbindung. Bitte prüf deine Verbindung und versuch es noch einmal.",
+  serverError: "Da ist bei mir leider etwas schiefgegangen. Bitte versuch es gleich noch einmal.",
+  notUnderstood: "Das habe ich leider nicht ganz verstanden. Kannst du es anders formulieren?",
+  noReply: "Ich konnte diese Anfrage nicht verarbeiten.",
+  codeOnScreen: "Der Code steht auf dem Bildschirm.",
+  wakeListening: "Wartet auf „{phrase}“",
+}
+
+const it: RobertoMessages = {
+  idleVoice: "Tocca il microfono per parlare",
+  idleText: "Scrivi il tuo messaggio",
+  listening: "Ti ascolto...",
+  thinking: "Elaborazione...",
+  speaking: "Sto parlando...",
+  error: "Qualcosa è andato storto",
+  holdToTalk: "Tieni premuto il microfono per parlare",
+  tapToSend: "Ti ascolto... tocca di nuovo per inviare",
+  releaseToSend: "Ti ascolto... rilascia per inviare",
+  speakNow: "Parla ora...",
+  askAnything: "Chiedimi qualsiasi cosa...",
+  typeQuestion: "Scrivi la tua domanda...",
+  send: "Invia",
+  sources: "Fonti:",
+  exportText: "Esporta .txt",
+  exportJson: "Esporta .json",
+  clear: "Cancella",
+  forget: "Dimenticami",
+  copy: "Copia",
+  copied: "Copiato",
+  transcriptUser: "Tu",
+  transcriptAssistant: "Roberto",
+  dialogLabel: "Assistente vocale Roberto",
+  conversationLabel: "Conversazione",
+  toggleAssistant: "Attiva o disattiva l'assistente vocale",
+  switchToTyping: "Passa alla scrittura",
+  switchToVoice: "Passa alla voce",
+  closeAssistant: "Chiudi l'assistente vocale",
+  speakReplies: "Leggi le risposte ad alta voce",
+  messageInput: "Messaggio per Roberto",
+  robertoThinking: "Roberto sta pensando",
+  rateLimited: "Stai andando un po' veloce per me. Riprova tra {seconds} secondi.",
+  aFew: "alcuni",
+  tooLong: "È un po' lungo per me. Puoi dirlo più brevemente?",
+  notAvailable: "Mi dispiace, non sono disponibile su questo sito.",
+  notVerified: "Mi dispiace, non sono riuscito a verificare questo sito. Ricarica la pagina e riprova.",
+  notSetUp: "Mi dispiace, non sono ancora stato configurato per questo sito.",
+  offline: "Al momento non riesco a collegarmi a internet. Controlla la connessione e riprova.",
+  serverError: "Mi dispiace, qualcosa è andato storto da parte mia. Riprova tra un momento.",
+  notUnderstood: "Mi dispiace, non ho capito bene. Puoi dirlo in un altro modo?",
+  noReply: "Non sono riuscito a elaborare la richiesta.",
+  codeOnScreen: "Il codice è sullo schermo.",
+  wakeListening: "In attesa di «{phrase}»",
+}
+
+const pt: RobertoMessages = {
+  idleVoice: "Toque no microfone para falar",
+  idleText: "Escreva sua mensagem",
+  listening: "Ouvindo...",
+  thinking: "Processando...",
+  speaking: "Falando...",
+  error: "Algo deu errado",
+  holdToTalk: "Mantenha o microfone pressionado para falar",
+  tapToSend: "Ouvindo... toque de novo para enviar",
+  releaseToSend: "Ouvindo... solte para enviar",
+  speakNow: "Fale agora...",
+  askAnything: "Pergunte o que quiser...",
+  typeQuestion: "Escreva sua pergunta...",
+  send: "Enviar",
+  sources: "Fontes:",
+  exportText: "Exportar .txt",
+  exportJson: "Exportar .json",
+  clear: "Limpar",
+  forget: "Esqueça-me",
+  copy: "Copiar",
+  copied: "Copiado",
+  transcriptUser: "Você",
+  transcriptAssistant: "Roberto",
+  dialogLabel: "Assistente de voz Roberto",
+  conversationLabel: "Conversa",
+  toggleAssistant: "Ativar ou desativar o assistente de voz",
+  switchToTyping: "Mudar para digitação",
+  switchToVoice: "Mudar para voz",
+  closeAssistant: "Fechar o assistente de voz",
+  speakReplies: "Ler as respostas em voz alta",
+  messageInput: "Mensagem para o Roberto",
+  robertoThinking: "Roberto está pensando",
+  rateLimited: "Você está indo um pouco rápido para mim. Tente novamente em {seconds} segundos.",
+  aFew: "alguns",
+  tooLong: "Isso é um pouco longo para mim. Pode dizer de forma mais breve?",
+  notAvailable: "Desculpe, não estou disponível neste site.",
+  notVerified: "Desculpe, não consegui verificar este site. Recarregue a página e tente novamente.",
+  notSetUp: "Desculpe, ainda não fui configurado para este site.",
+  offline: "Não consigo acessar a internet agora. Verifique sua conexão e tente novamente.",
+  serverError: "Desculpe, algo deu errado do meu lado. Tente novamente em instantes.",
+  notUnderstood: "Desculpe, não entendi bem. Pode dizer de outra forma?",
+  noReply: "Não consegui processar esse pedido.",
+  codeOnScreen: "O código está na tela.",
+  wakeListening: "Aguardando “{phrase}”",
+}
+
+// Catalogues by language tag; a region-specific entry ("pt-PT") wins over the bare language
+const catalogues: Record<string, Partial<RobertoMessages>> = { en, es, fr, de, it, pt }
+
+const DEFAULT_LANGUAGE = "en-US"
+
+export function registerMessages(language: string, messages: Partial<RobertoMessages>) {
+  const key = language.toLowerCase()
+  catalogues[key] = { ...catalogues[key], ...messages }
+}
+
+// Canonical BCP-47 form ("en_gb" -> "en-GB"), or null for something that isn't a language tag
+const canonicalTag = (tag: string) => {
+  try {
+    return Intl.getCanonicalLocales(tag.replace(/_/g, "-"))[0] || null
+  } catch (error) {
+    return null
+  }
+}
+
+const primaryLanguage = (tag: string) => tag.split("-")[0].toLowerCase()
+
+// "auto" (or nothing) is the visitor's browser language
+export function resolveLanguage(language?: string) {
+  const requested = language && language !== "auto"
+    ? language
+    : typeof navigator !== "undefined" ? navigator.language : ""
+  return (requested && canonicalTag(requested)) || DEFAULT_LANGUAGE
+}
+
+export function messagesFor(language: string): RobertoMessages {
+  const tag = language.toLowerCase()
+  return { ...en, ...catalogues[primaryLanguage(tag)], ...catalogues[tag] }
+}
+
+export const format = (message: string, values: Record<string, string | number>) =>
+  message.replace(/\{(\w+)\}/g, (match, key) => (key in values ? String(values[key]) : match))
+
+// The named voice if there is one, otherwise the best voice for the language:
+// same tag, then same language, preferring the browser's default voice
+export function pickVoice(voices: SpeechSynthesisVoice[], language: string, voiceName = "") {
+  if (voiceName) {
+    const named = voices.find(voice => voice.name === voiceName)
+    if (named) return named
+  }
+
+  const tag = language.toLowerCase()
+  const voiceTag = (voice: SpeechSynthesisVoice) => voice.lang.replace(/_/g, "-").toLowerCase()
+  const byPreference = (candidates: SpeechSynthesisVoice[]) =>
+    candidates.find(voice => voice.default) || candidates.find(voice => voice.localService) || candidates[0]
+
+  return byPreference(voices.filter(voice => voiceTag(voice) === tag))
+    || byPreference(voices.filter(voice => primaryLanguage(voiceTag(voice)) === primaryLanguage(tag)))
+    || null
+}
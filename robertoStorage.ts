@@ -0,0 +1,107 @@
+import type { TranscriptMessage } from "./robertoTranscript"
+import { robertoLog } from "./robertoEvents"
+
+/**
+ * Remembers the conversation and the widget's state across page loads, so a
+ * visitor moving between pages of a site keeps talking to the same Roberto.
+ *
+ *   "session"  this tab only, gone when it closes (sessionStorage)
+ *   "local"    this browser, until it expires (localStorage)
+ *   "off"      nothing is stored
+ *
+ * Everything expires after a period without activity; saving again restarts
+ * the clock. forgetState() erases it at once.
+ */
+
+export type PersistenceMode = "off" | "session" | "local"
+
+export interface PageInfo {
+  title: string
+  url: string
+}
+
+export interface StoredState {
+  // Milliseconds since the epoch
+  savedAt: number
+  conversationId?: string
+  messages?: TranscriptMessage[]
+  // Where the last turn was sent from, so Roberto can refer back to it after a navigation
+  lastPage?: PageInfo
+  open?: boolean
+  inputMode?: "voice" | "text"
+  speakReplies?: boolean
+}
+
+// Older messages are dropped from storage (the server only remembers recent ones anyway)
+const MAX_STORED_MESSAGES = 50
+
+// One record per persona, so two widgets on a site don't share a conversation
+export const storageKey = (personaId: string) => `roberto:${personaId || "default"}`
+
+// Storage can be missing or throw (Safari private mode, blocked cookies)
+const storageFor = (mode: PersistenceMode): Storage | null => {
+  if (mode === "off" || typeof window === "undefined") return null
+  try {
+    return mode === "local" ? window.localStorage : window.sessionStorage
+  } catch (error) {
+    return null
+  }
+}
+
+// The stored state, or null when there is none or it is older than maxAgeMinutes (0 never expires)
+export function loadState(mode: PersistenceMode, key: string, maxAgeMinutes: number): StoredState | null {
+  const storage = storageFor(mode)
+  if (!storage) return null
+
+  try {
+    const raw = storage.getItem(key)
+    if (!raw) return null
+    const state: StoredState = JSON.parse(raw)
+    if (maxAgeMinutes > 0 && Date.now() - state.savedAt > maxAgeMinutes * 60 * 1000) {
+      storage.removeItem(key)
+      return null
+    }
+    return state
+  } catch (error) {
+    robertoLog.warn("Could not read the saved conversation:", error)
+    return null
+  }
+}
+
+// Merges changes into the stored state. Fields set to undefined are removed.
+export function saveState(mode: PersistenceMode, key: string, changes: Partial<StoredState>) {
+  const storage = storageFor(mode)
+  if (!storage) return
+
+  try {
+    const previous = JSON.parse(storage.getItem(key) || "{}")
+    const { savedAt, ...state } = { ...previous, ...changes }
+    if (state.messages) state.messages = state.messages.slice(-MAX_STORED_MESSAGES)
+
+    if (Object.values(state).every(value => value === undefined)) {
+      storage.removeItem(key)
+    } else {
+      storage.setItem(key, JSON.stringify({ ...state, savedAt: Date.now() }))
+    }
+  } catch (error) {
+    // Full or unavailable: the widget still works, it just won't remember
+    robertoLog.warn("Could not save the conversation:", error)
+  }
+}
+
+// Erases the state from both storages, whichever mode it was saved with
+export function forgetState(key: string) {
+  for (const mode of ["session", "local"] as const) {
+    try {
+      storageFor(mode)?.removeItem(key)
+    } catch (error) {
+      // Nothing stored there
+    }
+  }
+}
+
+// Messages saved while a reply was still arriving can't be finished after a reload
+export const restoreMessages = (messages: TranscriptMessage[] = []) =>
+  messages
+    .filter(message => message.status !== "pending" || message.text)
+    .map(message => (message.status === "pending" ? { ...message, status: "done" as const } : message))
@@ -0,0 +1,135 @@
+import { useEffect, useState } from "react"
+
+/**
+ * Colours and shapes of the widget, applied as CSS custom properties on its
+ * root element so every part (button, waves, status pill, transcript) follows
+ * the same accent:
+ *
+ *   --roberto-accent, --roberto-accent-soft, --roberto-on-accent,
+ *   --roberto-surface, --roberto-text, --roberto-muted, --roberto-subtle,
+ *   --roberto-backdrop, --roberto-hover, --roberto-border, --roberto-shadow,
+ *   --roberto-radius, --roberto-blur
+ *
+ * Pick a preset with the theme prop and override single values with
+ * buttonColor, surfaceColor, textColor, radius and blur. Your own CSS can
+ * read or override the same variables under [data-roberto-widget].
+ *
+ * When the visitor asks for more contrast, surfaces become solid and
+ * secondary text full strength.
+ */
+
+export type ThemePreset = "light" | "dark" | "auto"
+
+export interface RobertoTheme {
+  accent: string
+  // Text and icons on the accent colour
+  onAccent: string
+  // Status pill, transcript panel and text box
+  surface: string
+  text: string
+  mutedText: string
+  // Roberto's message bubbles and hover highlights
+  subtle: string
+  // Tint behind the overlay
+  backdrop: string
+  shadow: string
+  // Corner radius of the surfaces, in pixels
+  radius: number
+  // Background blur behind the surfaces, in pixels
+  blur: number
+}
+
+export const THEMES: Record<"light" | "dark", RobertoTheme> = {
+  light: {
+    accent: "#e60000",
+    onAccent: "#ffffff",
+    surface: "rgba(255, 255, 255, 0.9)",
+    text: "#333333",
+    mutedText: "#666666",
+    subtle: "rgba(0, 0, 0, 0.06)",
+    backdrop: "rgba(0, 0, 0, 0.1)",
+    shadow: "0 8px 32px rgba(0, 0, 0, 0.1)",
+    radius: 24,
+    blur: 20,
+  },
+  dark: {
+    accent: "#e60000",
+    onAccent: "#ffffff",
+    surface: "rgba(28, 28, 30, 0.9)",
+    text: "#f2f2f2",
+    mutedText: "#a0a0a0",
+    subtle: "rgba(255, 255, 255, 0.1)",
+    backdrop: "rgba(0, 0, 0, 0.4)",
+    shadow: "0 8px 32px rgba(0, 0, 0, 0.4)",
+    radius: 24,
+    blur: 20,
+  },
+}
+
+// With "more contrast" requested: solid surfaces, full-strength secondary text, no blur
+const HIGH_CONTRAST: Record<"light" | "dark", Partial<RobertoTheme>> = {
+  light: { surface: "#ffffff", mutedText: "#333333", subtle: "rgba(0, 0, 0, 0.12)", blur: 0 },
+  dark: { surface: "#000000", mutedText: "#f2f2f2", subtle: "rgba(255, 255, 255, 0.2)", blur: 0 },
+}
+
+// Whether a media query matches, updated when it changes
+export function useMediaQuery(query: string) {
+  const [matches, setMatches] = useState(
+    () => typeof window !== "undefined" && Boolean(window.matchMedia?.(query).matches)
+  )
+
+  useEffect(() => {
+    if (typeof window === "undefined" || !window.matchMedia) return
+    const media = window.matchMedia(query)
+    const onChange = () => setMatches(media.matches)
+    onChange()
+    media.addEventListener("change", onChange)
+    return () => media.removeEventListener("change", onChange)
+  }, [query])
+
+  return matches
+}
+
+export interface ColorPreferences {
+  prefersDark: boolean
+  moreContrast: boolean
+}
+
+// The visitor's light/dark mode and contrast settings
+export const useColorPreferences = (): ColorPreferences => ({
+  prefersDark: useMediaQuery("(prefers-color-scheme: dark)"),
+  moreContrast: useMediaQuery("(prefers-contrast: more)"),
+})
+
+// The preset with any overrides that are set (empty values keep the preset's)
+export function resolveTheme(
+  preset: ThemePreset,
+  { prefersDark, moreContrast }: ColorPreferences,
+  overrides: Partial<RobertoTheme> = {}
+) {
+  const scheme = preset === "auto" ? (prefersDark ? "dark" : "light") : preset
+  const base = { ...(THEMES[scheme] || THEMES.light), ...(moreContrast && HIGH_CONTRAST[scheme]) }
+  const set = Object.entries(overrides).filter(([, value]) => value !== undefined && value !== "")
+  return { ...base, ...Object.fromEntries(set) } as RobertoTheme
+}
+
+// Translucent versions of a colour, e.g. for glows and gradients
+export const fade = (color: string, percent: number) => `color-mix(in srgb, ${color} ${percent}%, transparent)`
+
+export function themeVariables(theme: RobertoTheme): Record<string, string> {
+  return {
+    "--roberto-accent": theme.accent,
+    "--roberto-accent-soft": `color-mix(in srgb, ${theme.accent} 80%, white)`,
+    "--roberto-on-accent": theme.onAccent,
+    "--roberto-surface": theme.surface,
+    "--roberto-text": theme.text,
+    "--roberto-muted": theme.mutedText,
+    "--roberto-subtle": theme.subtle,
+    "--roberto-backdrop": theme.backdrop,
+    "--roberto-hover": fade(theme.text, 10),
+    "--roberto-border": fade(theme.text, 8),
+    "--roberto-shadow": theme.shadow,
+    "--roberto-radius": `${theme.radius}px`,
+    "--roberto-blur": `${theme.blur}px`,
+  }
+}
@@ -0,0 +1,220 @@
+import { robertoLog } from "./robertoEvents"
+
+/**
+ * Client-side tools Roberto can call to act on the page ("take me to pricing",
+ * "scroll to the contact form", "open the FAQ").
+ *
+ * Tools are described to the model with a JSON schema and run in the browser
+ * when the model asks for them:
+ *
+ *   const openChat: RobertoTool<{ topic: string }> = {
+ *     name: "open_support_chat",
+ *     description: "Open the live support chat about a topic",
+ *     parameters: {
+ *       type: "object",
+ *       properties: { topic: { type: "string" } },
+ *       required: ["topic"],
+ *     },
+ *     handler: ({ topic }) => window.Intercom?.("showNewMessage", topic),
+ *   }
+ *
+ *   <RobertoAI tools={[openChat]} />
+ */
+
+export interface RobertoTool<Args = any> {
+  name: string
+  description: string
+  // JSON schema for the arguments object
+  parameters: Record<string, unknown>
+  handler: (args: Args) => unknown | Promise<unknown>
+  // Ends the turn: the model is not asked for a follow-up reply after this tool runs
+  terminal?: boolean
+}
+
+export interface ToolCall {
+  id: string
+  name: string
+  arguments: Record<string, unknown>
+}
+
+export interface ToolResult {
+  id: string
+  name: string
+  result: unknown
+}
+
+// Give the reply a moment to show before the page unloads
+const NAVIGATION_DELAY_MS = 600
+
+const MAX_LISTED_TARGETS = 30
+
+// Anything inside the widget itself is never a target for page actions
+const isPartOfWidget = (element: Element) => element.closest('[data-roberto-widget]') !== null
+
+const labelOf = (element: Element) => (element.textContent || '').replace(/\s+/g, ' ').trim()
+
+/**
+ * Finds an element by `data-roberto` name, id, CSS selector or, failing those,
+ * by the text of a heading, button or link.
+ */
+export const findElement = (target: string): HTMLElement | null => {
+  const value = target.trim()
+  if (!value) return null
+
+  const byName = document.querySelector(`[data-roberto="${CSS.escape(value)}"]`)
+  if (byName) return byName as HTMLElement
+
+  const byId = document.getElementById(value.replace(/^#/, ''))
+  if (byId) return byId
+
+  try {
+    const bySelector = document.querySelector(value)
+    if (bySelector && !isPartOfWidget(bySelector)) return bySelector as HTMLElement
+  } catch (error) {
+    // Not a valid selector, fall through to matching by text
+  }
+
+  const needle = value.toLowerCase()
+  const candidates = Array.from(
+    document.querySelectorAll<HTMLElement>('h1, h2, h3, h4, summary, button, a, [role="button"]')
+  )
+  return candidates.find(el => !isPartOfWidget(el) && labelOf(el).toLowerCase().includes(needle)) || null
+}
+
+// Same-site links, so the model can map "pricing" to a real URL
+const listPageLinks = () => {
+  const links = new Map<string, string>()
+  document.querySelectorAll<HTMLAnchorElement>('a[href]').forEach((anchor) => {
+    if (isPartOfWidget(anchor) || anchor.origin !== window.location.origin) return
+    const label = labelOf(anchor)
+    if (label && !links.has(anchor.pathname)) links.set(anchor.pathname, label)
+  })
+  return Array.from(links, ([path, label]) => `${label} (${path})`).slice(0, MAX_LISTED_TARGETS)
+}
+
+// Named sections on the current page
+const listSections = () => {
+  const names = new Set<string>()
+  document.querySelectorAll<HTMLElement>('[data-roberto], section[id], h1[id], h2[id], h3[id]').forEach((element) => {
+    if (isPartOfWidget(element)) return
+    names.add(element.dataset.roberto || element.id)
+  })
+  return Array.from(names).slice(0, MAX_LISTED_TARGETS)
+}
+
+const scrollToElement = (element: HTMLElement) => {
+  element.scrollIntoView({ behavior: 'smooth', block: 'start' })
+}
+
+/**
+ * The built-in page actions. Their descriptions list the links and sections
+ * found on the page, so create them right before each request.
+ */
+export function createBuiltInTools(): RobertoTool[] {
+  const links = listPageLinks()
+  const sections = listSections()
+
+  return [
+    {
+      name: "navigate_to",
+      description:
+        "Open another page of this website, or jump to an #anchor on the current one." +
+        (links.length ? ` Known pages: ${links.join(', ')}.` : ''),
+      parameters: {
+        type: "object",
+        properties: {
+          url: { type: "string", description: "Path or URL on this site, e.g. /pricing or #faq" },
+        },
+        required: ["url"],
+      },
+      terminal: true,
+      handler: ({ url }: { url: string }) => {
+        const destination = new URL(String(url), window.location.href)
+        if (destination.origin !== window.location.origin) {
+          return { error: "Only pages on this website can be opened" }
+        }
+
+        if (destination.pathname === window.location.pathname && destination.hash) {
+          const anchor = findElement(destination.hash.slice(1))
+          if (anchor) scrollToElement(anchor)
+          return { ok: Boolean(anchor) }
+        }
+
+        setTimeout(() => window.location.assign(destination.href), NAVIGATION_DELAY_MS)
+        return { ok: true, url: destination.pathname }
+      },
+    },
+    {
+      name: "scroll_to",
+      description:
+        "Scroll the current page to a section, heading or element." +
+        (sections.length ? ` Sections on this page: ${sections.join(', ')}.` : ''),
+      parameters: {
+        type: "object",
+        properties: {
+          target: { type: "string", description: "Section name, heading text, id or CSS selector" },
+        },
+        required: ["target"],
+      },
+      handler: ({ target }: { target: string }) => {
+        const element = findElement(String(target))
+        if (!element) return { ok: false, error: `Nothing called "${target}" on this page` }
+        scrollToElement(element)
+        return { ok: true }
+      },
+    },
+    {
+      name: "click_element",
+      description:
+        "Click a button, link, tab or accordion on the current page, e.g. to open the FAQ or a menu.",
+      parameters: {
+        type: "object",
+        properties: {
+          target: { type: "string", description: "data-roberto name, button or link text, id or CSS selector" },
+        },
+        required: ["target"],
+      },
+      handler: ({ target }: { target: string }) => {
+        const element = findElement(String(target))
+        if (!element) return { ok: false, error: `Nothing called "${target}" on this page` }
+        scrollToElement(element)
+        element.click()
+        return { ok: true, clicked: labelOf(element).slice(0, 80) }
+      },
+    },
+  ]
+}
+
+// What the server needs to describe the tools to the model
+export const toToolDefinitions = (tools: RobertoTool[]) =>
+  tools.map(({ name, description, parameters }) => ({ name, description, parameters }))
+
+/**
+ * Runs the tool calls from one model reply. followUp is false when every call
+ * was to a terminal tool, so there is nothing to report back.
+ */
+export async function runToolCalls(calls: ToolCall[], tools: RobertoTool[]) {
+  const results: ToolResult[] = []
+  let followUp = false
+
+  for (const call of calls) {
+    const tool = tools.find(t => t.name === call.name)
+    let result: unknown
+
+    if (!tool) {
+      result = { error: `Unknown tool: ${call.name}` }
+    } else {
+      try {
+        result = (await tool.handler(call.arguments || {})) ?? { ok: true }
+      } catch (error) {
+        robertoLog.error(`Tool ${call.name} failed:`, error)
+        result = { error: (error as Error).message }
+      }
+    }
+
+    if (!tool?.terminal) followUp = true
+    results.push({ id: call.id, name: call.name, result })
+  }
+
+  return { results, followUp }
+}
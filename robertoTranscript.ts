@@ -0,0 +1,102 @@
+import type { KnowledgeSource } from "./useRobertoVoice"
+import { robertoLog } from "./robertoEvents"
+import { messagesFor } from "./robertoI18n"
+
+/**
+ * The conversation as a list of messages, and helpers to copy or save it:
+ *
+ *   const voice = useRobertoVoice()
+ *   <button onClick={() => downloadTranscript(voice.messages, "json")}>Save</button>
+ *
+ * The plain text format names the speakers in the conversation's language.
+ */
+
+export type MessageRole = "user" | "assistant"
+
+// "pending" while a reply is on its way (it may already have streamed text)
+export type MessageStatus = "pending" | "done" | "error"
+
+export interface TranscriptMessage {
+  id: string
+  role: MessageRole
+  text: string
+  status: MessageStatus
+  // Milliseconds since the epoch
+  createdAt: number
+  // Pages an assistant reply was based on
+  sources?: KnowledgeSource[]
+  // What went wrong, when status is "error"
+  error?: string
+}
+
+export type TranscriptFormat = "text" | "json"
+
+let messageCount = 0
+
+export const createMessage = (
+  role: MessageRole,
+  text: string,
+  status: MessageStatus = "done"
+): TranscriptMessage => ({
+  id: `${Date.now().toString(36)}-${(messageCount++).toString(36)}`,
+  role,
+  text,
+  status,
+  createdAt: Date.now(),
+})
+
+export const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
+
+// Plain text reads like a chat log; JSON keeps every field for other tools
+export function formatTranscript(messages: TranscriptMessage[], format: TranscriptFormat = "text", language = "en-US") {
+  if (format === "json") {
+    return JSON.stringify(
+      messages.map(({ role, text, status, createdAt, sources }) => ({
+        role,
+        text,
+        status,
+        time: new Date(createdAt).toISOString(),
+        ...(sources?.length && { sources }),
+      })),
+      null,
+      2
+    )
+  }
+
+  const strings = messagesFor(language)
+  const speakers: Record<MessageRole, string> = { user: strings.transcriptUser, assistant: strings.transcriptAssistant }
+  return messages
+    .map((message) => {
+      const sources = message.sources?.length
+        ? "\n" + message.sources.map(source => `  ${source.title}: ${source.url}`).join("\n")
+        : ""
+      return `[${formatTime(message.createdAt)}] ${speakers[message.role]}: ${message.text}${sources}`
+    })
+    .join("\n\n")
+}
+
+// Saves the conversation as roberto-conversation-<date>.txt or .json
+export function downloadTranscript(messages: TranscriptMessage[], format: TranscriptFormat = "text", language = "en-US") {
+  const type = format === "json" ? "application/json" : "text/plain"
+  const url = URL.createObjectURL(new Blob([formatTranscript(messages, format, language)], { type }))
+
+  const link = document.createElement("a")
+  link.href = url
+  link.download = `roberto-conversation-${new Date().toISOString().slice(0, 10)}.${format === "json" ? "json" : "txt"}`
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
+
+// Resolves to whether the text made it to the clipboard
+export async function copyText(text: string) {
+  try {
+    await navigator.clipboard.writeText(text)
+    return true
+  } catch (error) {
+    robertoLog.warn("Could not copy to the clipboard:", error)
+    return false
+  }
+}
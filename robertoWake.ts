@@ -0,0 +1,184 @@
+import { useEffect, useRef, useState } from "react"
+import { robertoLog } from "./robertoEvents"
+
+/**
+ * Passive listening for a wake phrase such as "Hey Roberto", for kiosks and
+ * in-store displays where nobody taps the button.
+ *
+ *   const wake = useWakePhrase({ enabled: !isOpen, phrase: "Hey Roberto", language, onWake: (rest) => ... })
+ *
+ * It uses the browser's own speech recognition and never the backend:
+ * everything heard is only compared with the phrase and then dropped. Where
+ * the browser can recognise on the device (Chrome 139+ with the language
+ * installed) the audio stays there; otherwise, as with all Web Speech
+ * recognition in Chrome, it goes to the browser vendor's recogniser. Pass
+ * onDeviceOnly to report "unavailable" rather than fall back to that.
+ *
+ * onWake gets what followed the phrase in the same breath ("Hey Roberto, when
+ * do you open?" gives "when do you open?"), the earliest speech that may be
+ * sent on to the backend.
+ */
+
+// "off" while disabled or the page is hidden, "unavailable" without speech
+// recognition (or on-device recognition, with onDeviceOnly), "blocked" when
+// the microphone was refused
+export type WakeState = "off" | "listening" | "unavailable" | "blocked"
+
+export interface WakePhraseOptions {
+  enabled: boolean
+  phrase: string
+  language: string
+  onDeviceOnly?: boolean
+  onWake: (rest: string) => void
+}
+
+// Browsers end continuous recognition now and then; wait a moment before listening again
+const RESTART_DELAY_MS = 300
+
+// Errors that only mean nothing was said, or that we stopped it ourselves
+const ROUTINE_ERRORS = ["no-speech", "aborted"]
+
+// Compared without case, accents or punctuation, so "Hey, Roberto!" matches "hey roberto"
+const normalizeSpeech = (text: string) => text
+  .normalize("NFD")
+  .replace(/[\u0300-\u036f]/g, "")
+  .toLowerCase()
+  .replace(/[^\p{L}\p{N}]+/gu, " ")
+  .trim()
+
+// What was said after the wake phrase, or null when the phrase isn't in the transcript
+export function afterWakePhrase(transcript: string, phrase: string): string | null {
+  const target = normalizeSpeech(phrase).split(" ").filter(Boolean)
+  if (target.length === 0) return null
+
+  // Words paired with the spoken token they came from, to cut the original text after the match
+  const tokens = transcript.split(/\s+/).filter(Boolean)
+  const words = tokens.flatMap((token, index) =>
+    normalizeSpeech(token).split(" ").filter(Boolean).map(word => ({ word, index })))
+
+  for (let i = 0; i + target.length <= words.length; i++) {
+    if (target.every((word, j) => words[i + j].word === word)) {
+      return tokens.slice(words[i + target.length - 1].index + 1).join(" ")
+    }
+  }
+  return null
+}
+
+// Recognition that stays on the device (Chrome 139+), when the language is installed
+async function canRecognizeOnDevice(SpeechRecognition: any, language: string) {
+  try {
+    return (await SpeechRecognition.available?.({ langs: [language], processLocally: true })) === "available"
+  } catch (error) {
+    return false
+  }
+}
+
+export function useWakePhrase({ enabled, phrase, language, onDeviceOnly = false, onWake }: WakePhraseOptions): WakeState {
+  const [state, setState] = useState<WakeState>("off")
+  const onWakeRef = useRef(onWake)
+  onWakeRef.current = onWake
+
+  useEffect(() => {
+    if (!enabled || !normalizeSpeech(phrase) || typeof window === "undefined") {
+      setState("off")
+      return
+    }
+
+    // Never the server engine: speech before the wake phrase must not leave the browser
+    // @ts-ignore
+    const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition
+    if (!SpeechRecognition) {
+      setState("unavailable")
+      return
+    }
+
+    let stopped = false
+    let heard: string | null = null
+    let restartTimer: ReturnType<typeof setTimeout> | undefined
+
+    const recognition = new SpeechRecognition()
+    recognition.continuous = true
+    recognition.interimResults = false
+    recognition.maxAlternatives = 3
+    recognition.lang = language
+
+    const listen = () => {
+      if (stopped) return
+      if (document.hidden) {
+        setState("off")
+        return
+      }
+      try {
+        recognition.start()
+      } catch (error) {
+        // Already listening
+      }
+    }
+
+    recognition.onstart = () => setState("listening")
+
+    // Recognisers spell the phrase differently ("Hey Roberto", "hey, Roberto"), so every alternative counts
+    recognition.onresult = (event: any) => {
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        const result = event.results[i]
+        if (!result.isFinal) continue
+        for (let j = 0; j < result.length; j++) {
+          const rest = afterWakePhrase(result[j].transcript, phrase)
+          if (rest === null) continue
+          // Hand over in onend, once the microphone is free for the conversation
+          heard = rest
+          recognition.abort()
+          return
+        }
+      }
+    }
+
+    recognition.onerror = (event: any) => {
+      if (event.error === "not-allowed" || event.error === "service-not-allowed") {
+        stopped = true
+        setState("blocked")
+      }
+      if (!ROUTINE_ERRORS.includes(event.error)) robertoLog.warn("Wake phrase recognition error:", event.error)
+    }
+
+    recognition.onend = () => {
+      if (heard !== null) {
+        const rest = heard.trim()
+        heard = null
+        robertoLog.info("👂 Wake phrase heard")
+        onWakeRef.current(rest)
+      }
+      if (!stopped) restartTimer = setTimeout(listen, RESTART_DELAY_MS)
+    }
+
+    // Nothing is heard while the page is in the background
+    const onVisibilityChange = () => {
+      if (document.hidden) recognition.abort()
+      else listen()
+    }
+    document.addEventListener("visibilitychange", onVisibilityChange)
+
+    canRecognizeOnDevice(SpeechRecognition, language).then((onDevice) => {
+      if (stopped) return
+      if (!onDevice && onDeviceOnly) {
+        stopped = true
+        setState("unavailable")
+        return
+      }
+      if (onDevice) recognition.processLocally = true
+      robertoLog.info(`👂 Waiting for "${phrase}"${onDevice ? " (on device)" : ""}`)
+      listen()
+    })
+
+    return () => {
+      stopped = true
+      clearTimeout(restartTimer)
+      document.removeEventListener("visibilitychange", onVisibilityChange)
+      recognition.onend = null
+      recognition.abort()
+      setState("off")
+    }
+  }, [enabled, phrase, language, onDeviceOnly])
+
+  return state
+}
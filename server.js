@@ -1,80 +1,525 @@
 const express = require('express');
 const cors = require('cors');
 require('dotenv').config();
+const conversations = require('./lib/conversations');
+const { startEventStream, sendEvent } = require('./lib/sse');
+const { createProvider, ProviderError } = require('./lib/providers');
+const { sanitizeTools, toolResultMessages, fillMissingToolResults } = require('./lib/tools');
+const { loadKnowledgeBase, formatPassages, sourcesOf } = require('./lib/knowledge');
+const { createTranscriber } = require('./lib/stt');
+const { createSynthesizer } = require('./lib/tts');
+const { sendError, providerErrorStatus, handleBodyErrors } = require('./lib/errors');
+const security = require('./lib/security');
+const { loadPersonas, cleanLanguage, sanitizeContext, renderInstructions, allowedTools, publicPersona } = require('./lib/personas');
+const { createStore } = require('./lib/store');
+const admin = require('./lib/admin');
 
 const app = express();
 
-// Enable CORS with explicit options for Framer compatibility
+// Behind a load balancer (Vercel, Heroku, Render) set TRUST_PROXY=1 so rate
+// limits see the visitor's IP instead of the proxy's
+if (process.env.TRUST_PROXY) {
+  app.set('trust proxy', /^\d+$/.test(process.env.TRUST_PROXY) ? Number(process.env.TRUST_PROXY) : process.env.TRUST_PROXY);
+}
+
+// Enable CORS with explicit options for Framer compatibility. Every origin may
+// read the responses so sites outside ALLOWED_ORIGINS get a readable 403
+// (see checkOrigin) instead of an opaque network error.
 app.use(cors({
-  origin: '*',
-  methods: ['GET', 'POST', 'OPTIONS'],
+  origin: true,
+  methods: ['GET', 'POST', 'DELETE', 'OPTIONS'],
   allowedHeaders: ['Content-Type', 'Authorization'],
   credentials: false,
 }));
 
-app.use(express.json());
+app.use(express.json({ limit: process.env.MAX_REQUEST_SIZE || '32kb' }));
+app.use(handleBodyErrors);
+app.use('/api', security.checkOrigin);
+
+const MAX_MESSAGE_CHARS = parseInt(process.env.MAX_MESSAGE_CHARS || '2000', 10);
+const MAX_SYSTEM_PROMPT_CHARS = parseInt(process.env.MAX_SYSTEM_PROMPT_CHARS || '4000', 10);
+const MAX_UNANSWERED = 5;
+
+// Older widgets sent their own systemPrompt. It is ignored unless explicitly allowed,
+// since anyone can change what the browser sends.
+const ALLOW_CLIENT_SYSTEM_PROMPT = process.env.ALLOW_CLIENT_SYSTEM_PROMPT === 'true';
 
-const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
+// Chat is limited per IP and, with site tokens, per token session. The conversation
+// ID isn't a session: the client picks it, so a fresh one per request would dodge
+// the limit. Audio routes are called once per sentence so they get their own budget.
+const chatLimit = security.rateLimit(
+  { limiter: security.createRateLimiter(parseInt(process.env.RATE_LIMIT_PER_IP || '30', 10)), keyOf: req => req.ip },
+  {
+    limiter: security.createRateLimiter(parseInt(process.env.RATE_LIMIT_PER_SESSION || '15', 10)),
+    keyOf: req => req.siteToken?.sid || null,
+  },
+);
+const speechLimit = security.rateLimit(
+  { limiter: security.createRateLimiter(parseInt(process.env.RATE_LIMIT_SPEECH_PER_IP || '120', 10)), keyOf: req => req.ip },
+);
+const tokenLimit = security.rateLimit(
+  { limiter: security.createRateLimiter(parseInt(process.env.RATE_LIMIT_TOKENS_PER_IP || '10', 10)), keyOf: req => req.ip },
+);
 
-if (!OPENAI_API_KEY) {
-  console.error('❌ OPENAI_API_KEY environment variable is not set');
-  console.error('Please create a .env file with: OPENAI_API_KEY=your-key-here');
+let provider;
+try {
+  provider = createProvider();
+} catch (error) {
+  console.error(`❌ ${error.message}`);
+  console.error('Please create a .env file with: OPENAI_API_KEY=your-key-here (or set LLM_PROVIDER)');
   process.exit(1);
 }
 
-app.post('/api/chat', async (req, res) => {
+let knowledge;
+let personas;
+let store;
+try {
+  knowledge = loadKnowledgeBase();
+  personas = loadPersonas();
+  store = createStore();
+} catch (error) {
+  console.error(`❌ ${error.message}`);
+  process.exit(1);
+}
+
+// Server-side speech recognition is optional: without it the widget uses the browser's
+let transcriber = null;
+try {
+  transcriber = createTranscriber();
+} catch (error) {
+  console.warn(`⚠️  Speech-to-text disabled: ${error.message}`);
+}
+
+const MAX_AUDIO_BYTES = parseInt(process.env.STT_MAX_AUDIO_MB || '10', 10) * 1024 * 1024;
+
+// Likewise for server-side speech: without it the widget speaks with the browser's voices
+let synthesizer = null;
+try {
+  synthesizer = createSynthesizer();
+} catch (error) {
+  console.warn(`⚠️  Text-to-speech disabled: ${error.message}`);
+}
+
+const MAX_SPEECH_CHARS = parseInt(process.env.TTS_MAX_CHARS || '1000', 10);
+
+// Conversations older than this are deleted from the store; 0 keeps them forever
+const RETENTION_DAYS = parseInt(process.env.TRANSCRIPT_RETENTION_DAYS || '90', 10);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Deletes stored conversations without activity in the last `days` days, returns how many
+async function purgeOlderThan(days) {
+  return store.purge(new Date(Date.now() - days * DAY_MS).toISOString());
+}
+
+// Keeps a transcript of a finished or failed turn. It doesn't hold up the reply,
+// and a store that can't save only costs the transcript.
+function recordTurn(turn, reply) {
+  if (!store) return;
+
+  const messages = [];
+  if (turn.message) {
+    messages.push({
+      role: 'user',
+      content: turn.message,
+      createdAt: new Date(turn.startedAt).toISOString(),
+      ...(turn.pageUrl && { pageUrl: turn.pageUrl }),
+    });
+  }
+  messages.push({
+    role: 'assistant',
+    content: reply.content || '',
+    createdAt: new Date().toISOString(),
+    latencyMs: Date.now() - turn.startedAt,
+    ...(turn.firstTokenAt && { firstTokenMs: turn.firstTokenAt - turn.startedAt }),
+    provider: provider.name,
+    model: turn.model,
+    ...(reply.toolCalls?.length && { toolCalls: reply.toolCalls }),
+    ...(reply.error && { error: reply.error }),
+  });
+
+  store.addMessages(turn.conversationId, turn.session, messages)
+    .catch(error => console.error('Could not store the conversation:', error));
+}
+
+// Hands the widget a short-lived token for the site it runs on (only with SITE_TOKEN_SECRET)
+app.get('/api/token', tokenLimit, (req, res) => {
+  if (!security.siteTokensEnabled()) {
+    return sendError(res, 404, 'tokens_disabled', 'Site tokens are not enabled on this server');
+  }
+  res.set('Cache-Control', 'no-store');
+  res.json(security.createSiteToken(req.get('Origin')));
+});
+
+// Public details of a persona: its display name and greeting. Without an ID, the default persona
+app.get(['/api/personas', '/api/personas/:id'], (req, res) => {
+  const persona = personas.get(req.params.id);
+  if (!persona) return sendError(res, 404, 'persona_not_found', `Unknown persona "${req.params.id}"`);
+  res.json(publicPersona(persona));
+});
+
+app.post('/api/chat', security.requireSiteToken, chatLimit, async (req, res) => {
+  let turn = null;
   try {
     const { message, systemPrompt } = req.body;
+    const stream = req.body.stream === true;
+
+    const persona = personas.get(typeof req.body.personaId === 'string' ? req.body.personaId : undefined);
+    if (!persona) {
+      return sendError(res, 404, 'persona_not_found', `Unknown persona "${req.body.personaId}"`);
+    }
 
-    if (!message) {
-      return res.status(400).json({ error: 'Message is required' });
-    }
-
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${OPENAI_API_KEY}`
-      },
-      body: JSON.stringify({
-        model: 'gpt-4',
-        messages: [
-          {
-            role: 'system',
-            content: systemPrompt || 'You are Roberto, a helpful AI assistant. Respond concisely and helpfully.'
-          },
-          {
-            role: 'user',
-            content: message
-          }
-        ],
-        temperature: 0.7,
-        max_tokens: 500
-      })
+    // A turn is either a new message or the results of tools the widget ran
+    const toolResults = Array.isArray(req.body.toolResults) ? req.body.toolResults : null;
+    const tools = allowedTools(persona, sanitizeTools(req.body.tools));
+
+    if (!message && !toolResults) {
+      return sendError(res, 400, 'message_required', 'Message is required');
+    }
+    if (message !== undefined && typeof message !== 'string') {
+      return sendError(res, 400, 'invalid_message', 'Message must be a string');
+    }
+    // Questions of requests this one replaced (see conversations.unstoredQuestions)
+    const unanswered = message && Array.isArray(req.body.unanswered)
+      ? req.body.unanswered.filter(question => typeof question === 'string' && question.trim()).slice(-MAX_UNANSWERED)
+      : [];
+    if (unanswered.join(' ').length + (message || '').length > MAX_MESSAGE_CHARS) {
+      return sendError(res, 400, 'message_too_long', `Message is limited to ${MAX_MESSAGE_CHARS} characters`, {
+        maxLength: MAX_MESSAGE_CHARS,
+      });
+    }
+    const clientPrompt = ALLOW_CLIENT_SYSTEM_PROMPT ? systemPrompt : undefined;
+    if (clientPrompt !== undefined && (typeof clientPrompt !== 'string' || clientPrompt.length > MAX_SYSTEM_PROMPT_CHARS)) {
+      return sendError(res, 400, 'system_prompt_too_long', `System prompt is limited to ${MAX_SYSTEM_PROMPT_CHARS} characters`);
+    }
+
+    // Reuse the client's conversation when it sends a valid ID, otherwise start a new one
+    const conversationId = conversations.isValidConversationId(req.body.conversationId)
+      ? req.body.conversationId
+      : conversations.createConversationId();
+
+    const history = conversations.getHistory(conversationId);
+    const question = [...conversations.unstoredQuestions(history, unanswered), message].join(' ');
+    const newMessages = toolResults
+      ? toolResultMessages(history, toolResults)
+      : [{ role: 'user', content: question }];
+
+    if (newMessages.length === 0) {
+      return sendError(res, 400, 'no_matching_tool_call', 'No matching tool call for these results');
+    }
+
+    // Ground the reply in the site's own content. Tool results continue the
+    // visitor's last question, so search with that.
+    const query = question || [...history].reverse().find(m => m.role === 'user')?.content || '';
+    const passages = knowledge ? knowledge.search(query) : [];
+    const sources = sourcesOf(passages);
+
+    const instructions = clientPrompt || renderInstructions(persona, req.body.context);
+    const messages = [
+      { role: 'system', content: passages.length ? `${instructions}\n\n${formatPassages(passages)}` : instructions },
+      ...conversations.trimHistory(fillMissingToolResults([...history, ...newMessages])),
+    ];
+
+    // Stop generating if the visitor closes the widget mid-stream
+    const upstreamAbort = new AbortController();
+    res.on('close', () => {
+      if (!res.writableEnded) upstreamAbort.abort();
     });
+    const options = { signal: upstreamAbort.signal, tools, ...persona.settings };
+
+    // What the transcript records about this turn
+    const context = sanitizeContext(req.body.context);
+    turn = {
+      conversationId,
+      message: question,
+      startedAt: Date.now(),
+      firstTokenAt: null,
+      pageUrl: context['page.url'],
+      model: options.model || provider.model,
+      session: { personaId: persona.id, origin: req.get('Origin') || null, language: context.locale },
+    };
+
+    // Stores the reply (and any tool calls the widget should run) in the history
+    const saveReply = (content, toolCalls) => {
+      const aiResponse = content || (toolCalls.length ? '' : "I couldn't process that request.");
+      conversations.appendMessages(conversationId, ...newMessages, {
+        role: 'assistant',
+        content: aiResponse,
+        ...(toolCalls.length && { toolCalls }),
+      });
+      return aiResponse;
+    };
+
+    if (stream) {
+      startEventStream(res);
 
-    if (!response.ok) {
-      const errorData = await response.json();
-      console.error('OpenAI API Error:', errorData);
-      return res.status(response.status).json({ error: 'Failed to get response from OpenAI' });
+      let content = '';
+      const toolCalls = [];
+      for await (const event of provider.stream(messages, options)) {
+        turn.firstTokenAt ??= Date.now();
+        if (event.type === 'text') {
+          content += event.text;
+          sendEvent(res, { type: 'delta', text: event.text });
+        } else if (event.type === 'tool_call') {
+          toolCalls.push(event.toolCall);
+          sendEvent(res, { type: 'tool_call', ...event.toolCall });
+        }
+      }
+
+      const aiResponse = saveReply(content, toolCalls);
+      recordTurn(turn, { content: aiResponse, toolCalls });
+      sendEvent(res, { type: 'done', response: aiResponse, toolCalls, sources, conversationId });
+      return res.end();
     }
 
-    const data = await response.json();
-    const aiResponse = data.choices?.[0]?.message?.content || "I couldn't process that request.";
+    const { content, toolCalls } = await provider.complete(messages, options);
+    const aiResponse = saveReply(content, toolCalls);
+    recordTurn(turn, { content: aiResponse, toolCalls });
 
-    res.json({ response: aiResponse });
+    res.json({ response: aiResponse, toolCalls, sources, conversationId });
   } catch (error) {
-    console.error('Server error:', error);
-    res.status(500).json({ error: 'Internal server error' });
+    if (error.name === 'AbortError') return;
+
+    if (error instanceof ProviderError) {
+      console.error(`${error.provider} API Error:`, error.details);
+    } else {
+      console.error('Server error:', error);
+    }
+    if (turn) recordTurn(turn, { error: error instanceof ProviderError ? 'provider_error' : 'internal_error' });
+
+    if (res.headersSent) {
+      // Already streaming, so report the failure in-band
+      sendEvent(res, { type: 'error', code: 'provider_error', error: 'Failed to get response from the AI provider' });
+      return res.end();
+    }
+    if (error instanceof ProviderError) {
+      return sendError(res, providerErrorStatus(error), 'provider_error', `Failed to get response from ${error.provider}`);
+    }
+    sendError(res, 500, 'internal_error', 'Internal server error');
   }
 });
 
-app.get('/api/health', (req, res) => {
-  res.json({ status: 'ok', message: 'Roberto AI server is running' });
+// Deletes a conversation's history and transcript, when the visitor asks Roberto to forget them
+app.post('/api/forget', security.requireSiteToken, chatLimit, async (req, res) => {
+  const { conversationId } = req.body;
+  if (!conversations.isValidConversationId(conversationId)) {
+    return sendError(res, 400, 'invalid_conversation_id', 'A valid conversationId is required');
+  }
+  conversations.deleteConversation(conversationId);
+  try {
+    await store?.deleteConversation(conversationId);
+  } catch (error) {
+    console.error('Could not delete the conversation:', error);
+    return sendError(res, 500, 'internal_error', 'Internal server error');
+  }
+  res.status(204).end();
+});
+
+// Turns one recorded utterance into text. The body is the raw audio as recorded
+// by MediaRecorder, with its MIME type as Content-Type.
+app.post('/api/transcribe', security.requireSiteToken, speechLimit, express.raw({ type: () => true, limit: MAX_AUDIO_BYTES }), handleBodyErrors, async (req, res) => {
+  if (!transcriber) {
+    return sendError(res, 503, 'stt_unavailable', 'Speech-to-text is not configured');
+  }
+  if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+    return sendError(res, 400, 'audio_required', 'Audio is required');
+  }
+
+  const upstreamAbort = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) upstreamAbort.abort();
+  });
+
+  try {
+    const { text } = await transcriber.transcribe(req.body, {
+      mimeType: req.get('Content-Type'),
+      language: cleanLanguage(req.query.language) || undefined,
+      signal: upstreamAbort.signal,
+    });
+    res.json({ text });
+  } catch (error) {
+    if (error.name === 'AbortError') return;
+
+    if (error instanceof ProviderError) {
+      console.error(`${error.provider} transcription error:`, error.details);
+      return sendError(res, providerErrorStatus(error), 'provider_error', `Failed to transcribe audio with ${error.provider}`);
+    }
+    console.error('Transcription error:', error);
+    sendError(res, 500, 'internal_error', 'Internal server error');
+  }
+});
+
+// Speaks one sentence or short reply. The audio is streamed back as the engine produces it.
+app.post('/api/speak', security.requireSiteToken, speechLimit, async (req, res) => {
+  if (!synthesizer) {
+    return sendError(res, 503, 'tts_unavailable', 'Text-to-speech is not configured');
+  }
+  const text = typeof req.body.text === 'string' ? req.body.text.trim() : '';
+  if (!text) {
+    return sendError(res, 400, 'text_required', 'Text is required');
+  }
+  if (text.length > MAX_SPEECH_CHARS) {
+    return sendError(res, 400, 'text_too_long', `Text is limited to ${MAX_SPEECH_CHARS} characters`);
+  }
+
+  const upstreamAbort = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) upstreamAbort.abort();
+  });
+
+  try {
+    const { contentType, audio } = await synthesizer.synthesize(text, {
+      voice: typeof req.body.voice === 'string' ? req.body.voice : undefined,
+      language: cleanLanguage(req.body.language) || undefined,
+      signal: upstreamAbort.signal,
+    });
+
+    res.set({ 'Content-Type': contentType, 'Cache-Control': 'no-store' });
+    for await (const chunk of audio) {
+      res.write(chunk);
+    }
+    res.end();
+  } catch (error) {
+    if (error.name === 'AbortError') return;
+
+    if (error instanceof ProviderError) {
+      console.error(`${error.provider} speech error:`, error.details);
+    } else {
+      console.error('Speech error:', error);
+    }
+
+    // Part of the audio was already sent, so all we can do is cut it short
+    if (res.headersSent) return res.end();
+    if (error instanceof ProviderError) {
+      return sendError(res, providerErrorStatus(error), 'provider_error', `Failed to synthesize speech with ${error.provider}`);
+    }
+    sendError(res, 500, 'internal_error', 'Internal server error');
+  }
+});
+
+// Transcript admin API, enabled by ADMIN_TOKEN. Every route needs the store.
+const adminRoutes = express.Router();
+adminRoutes.use(security.requireAdmin, (req, res, next) => {
+  if (!store) return sendError(res, 503, 'store_unavailable', 'Conversations are not stored on this server (STORE_ENGINE=off)');
+  res.set('Cache-Control', 'no-store');
+  next();
+});
+
+// Express 4 doesn't pass rejected promises on to the error handlers
+const handled = (route) => (req, res, next) => route(req, res, next).catch((error) => {
+  console.error('Admin error:', error);
+  if (res.headersSent) return res.end();
+  sendError(res, 500, 'internal_error', 'Internal server error');
 });
 
-const PORT = process.env.PORT || 3000;
-app.listen(PORT, () => {
-  console.log(`✅ Roberto AI server running on http://localhost:${PORT}`);
-  console.log(`📝 API endpoint: http://localhost:${PORT}/api/chat`);
+// Lists or searches conversations, latest first: ?q=&personaId=&from=&to=&limit=&offset=
+adminRoutes.get('/conversations', handled(async (req, res) => {
+  const { filter, error } = admin.filterFromQuery(req.query);
+  if (error) return sendError(res, 400, 'invalid_filter', error);
+  const { total, conversations: page } = await store.listConversations(filter);
+  res.json({ total, limit: filter.limit, offset: filter.offset, conversations: page });
+}));
+
+// Every matching conversation as JSON Lines (default) or CSV with one message per row
+adminRoutes.get('/conversations/export', handled(async (req, res) => {
+  const { filter, error } = admin.filterFromQuery(req.query);
+  if (error) return sendError(res, 400, 'invalid_filter', error);
+  const csv = req.query.format === 'csv';
+  if (!csv && req.query.format && req.query.format !== 'jsonl') {
+    return sendError(res, 400, 'invalid_format', 'format must be jsonl or csv');
+  }
+
+  const { conversations: matching } = await store.listConversations({ ...filter, limit: undefined, offset: 0 });
+  res.set({
+    'Content-Type': csv ? 'text/csv; charset=utf-8' : 'application/x-ndjson; charset=utf-8',
+    'Content-Disposition': `attachment; filename="conversations.${csv ? 'csv' : 'jsonl'}"`,
+  });
+  if (csv) res.write(admin.csvHeader());
+  for (const { id } of matching) {
+    const conversation = await store.getConversation(id);
+    if (conversation) res.write(csv ? admin.toCsvRows(conversation) : admin.toJsonLine(conversation));
+  }
+  res.end();
+}));
+
+adminRoutes.get('/conversations/:id', handled(async (req, res) => {
+  const conversation = conversations.isValidConversationId(req.params.id) && await store.getConversation(req.params.id);
+  if (!conversation) return sendError(res, 404, 'conversation_not_found', 'No conversation with this ID');
+  res.json(conversation);
+}));
+
+adminRoutes.delete('/conversations/:id', handled(async (req, res) => {
+  const deleted = conversations.isValidConversationId(req.params.id) && await store.deleteConversation(req.params.id);
+  if (!deleted) return sendError(res, 404, 'conversation_not_found', 'No conversation with this ID');
+  conversations.deleteConversation(req.params.id);
+  res.status(204).end();
+}));
+
+// Deletes conversations without activity in the last olderThanDays days
+// (default TRANSCRIPT_RETENTION_DAYS)
+adminRoutes.post('/purge', handled(async (req, res) => {
+  const days = req.body.olderThanDays ?? RETENTION_DAYS;
+  if (!Number.isFinite(days) || days <= 0) {
+    return sendError(res, 400, 'invalid_retention', 'olderThanDays must be a positive number');
+  }
+  res.json({ deleted: await purgeOlderThan(days) });
+}));
+
+app.use('/api/admin', adminRoutes);
+
+app.get('/api/health', (req, res) => {
+  res.json({
+    status: 'ok',
+    message: 'Roberto AI server is running',
+    provider: provider.name,
+    stt: transcriber ? transcriber.name : null,
+    tts: synthesizer ? synthesizer.name : null,
+    store: store ? store.name : null,
+    knowledgePassages: knowledge ? knowledge.size : 0,
+  });
 });
+
+// Listens when run with `node server.js`; tests require the app and listen themselves
+if (require.main === module) {
+  const PORT = process.env.PORT || 3000;
+  app.listen(PORT, () => {
+    console.log(`✅ Roberto AI server running on http://localhost:${PORT}`);
+    console.log(`📝 API endpoint: http://localhost:${PORT}/api/chat`);
+    console.log(`🤖 LLM provider: ${provider.name}`);
+    console.log(`🎭 Personas: ${personas.size} (default "${personas.defaultId}")`);
+    if (security.ALLOWED_ORIGINS.length === 0) {
+      console.warn('⚠️  ALLOWED_ORIGINS is not set: any website can use this server');
+    }
+    if (security.siteTokensEnabled()) {
+      console.log('🔑 Site tokens required (GET /api/token)');
+    }
+    if (transcriber) {
+      console.log(`🎙️  Speech-to-text: ${transcriber.name} at http://localhost:${PORT}/api/transcribe`);
+    }
+    if (synthesizer) {
+      console.log(`🔊 Text-to-speech: ${synthesizer.name} at http://localhost:${PORT}/api/speak`);
+    }
+    if (knowledge) {
+      console.log(`📚 Knowledge base: ${knowledge.size} passages from ${knowledge.documents} documents`);
+    }
+    if (store) {
+      const retention = RETENTION_DAYS > 0 ? `kept for ${RETENTION_DAYS} days` : 'kept forever';
+      console.log(`💾 Conversations: ${store.name} store, ${retention}`);
+    }
+    if (security.adminEnabled()) {
+      console.log(`🗂️  Admin API: http://localhost:${PORT}/api/admin/conversations`);
+    }
+  });
+}
+
+// Retention: purge at startup, then hourly
+if (store && RETENTION_DAYS > 0) {
+  const purgeExpired = () => purgeOlderThan(RETENTION_DAYS)
+    .then((deleted) => {
+      if (deleted) console.log(`🧹 Deleted ${deleted} conversations older than ${RETENTION_DAYS} days`);
+    })
+    .catch(error => console.error('Could not purge old conversations:', error));
+  purgeExpired();
+  setInterval(purgeExpired, 60 * 60 * 1000).unref();
+}
+
+module.exports = app;
@@ -0,0 +1,253 @@
+import { fetchWithSiteToken } from "./robertoApi"
+import { rootMeanSquare } from "./micLevel"
+import { robertoLog } from "./robertoEvents"
+
+/**
+ * Speech recognition that records the microphone with MediaRecorder and
+ * transcribes each utterance on the backend (/api/transcribe), for browsers
+ * without the Web Speech API or sites that don't want audio sent to the
+ * browser vendor.
+ *
+ * It mimics the parts of the SpeechRecognition interface useRobertoVoice
+ * relies on (start/stop/abort, the on* handlers and a growing results list), so
+ * turn-taking, echo suppression and barge-in work the same for both engines.
+ */
+
+// RMS level that counts as speech, or NOISE_FLOOR_RATIO times the background noise if louder
+const MIN_SPEECH_LEVEL = 0.015
+const NOISE_FLOOR_RATIO = 3
+
+// A pause this long ends an utterance and sends it off for transcription
+const UTTERANCE_END_MS = 700
+const MAX_UTTERANCE_MS = 30000
+
+// Recordings without speech are thrown away this often so they stay small
+const IDLE_RESTART_MS = 10000
+
+const LEVEL_INTERVAL_MS = 50
+
+// Shown while an utterance is being recorded and transcribed
+const PENDING_TRANSCRIPT = "…"
+
+const MIME_TYPES = ["audio/webm;codecs=opus", "audio/webm", "audio/ogg;codecs=opus", "audio/mp4"]
+
+interface RecognitionResult {
+  0: { transcript: string }
+  length: number
+  isFinal: boolean
+}
+
+interface Segment {
+  recorder: MediaRecorder
+  chunks: Blob[]
+  startedAt: number
+  // Index in the results list once speech was heard in this segment
+  slot: number | null
+}
+
+const toResult = (transcript: string, isFinal: boolean): RecognitionResult =>
+  Object.assign([{ transcript }] as [{ transcript: string }], { isFinal })
+
+export const serverRecognitionSupported = () =>
+  typeof window !== "undefined" &&
+  typeof MediaRecorder !== "undefined" &&
+  Boolean(navigator.mediaDevices?.getUserMedia)
+
+export class ServerSpeechRecognition {
+  continuous = true
+  interimResults = true
+  lang = "en-US"
+
+  onstart: (() => void) | null = null
+  onend: (() => void) | null = null
+  onresult: ((event: { results: RecognitionResult[] }) => void) | null = null
+  onerror: ((event: { error: string }) => void) | null = null
+
+  private running = false
+  private results: RecognitionResult[] = []
+  private stream: MediaStream | null = null
+  private audioContext: AudioContext | null = null
+  private levelTimer?: ReturnType<typeof setInterval>
+  private segment: Segment | null = null
+  private lastSpeechAt = 0
+  private noiseFloor = 0
+  // Transcriptions finish in the order they were recorded
+  private transcriptions: Promise<void> = Promise.resolve()
+
+  constructor(private getEndpoint: () => string) {}
+
+  start() {
+    if (this.running) throw new Error("Recognition has already started")
+    this.running = true
+    this.results = []
+
+    // Created inside the click that started listening, so autoplay rules don't suspend it
+    const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext
+    this.audioContext = new AudioContextClass()
+    this.open()
+  }
+
+  stop() {
+    if (!this.running) return
+    this.running = false
+    clearInterval(this.levelTimer)
+
+    // Send what was said so far, then report the end once it is transcribed
+    this.cut()
+    this.release()
+    this.transcriptions.then(() => this.onend?.())
+  }
+
+  // Stops without sending the recording in progress: a half-finished utterance
+  // is dropped, never uploaded. Utterances already sent still finish first.
+  abort() {
+    if (!this.running) return
+    this.running = false
+    clearInterval(this.levelTimer)
+
+    const segment = this.segment
+    this.segment = null
+    if (segment && segment.recorder.state !== "inactive") {
+      segment.recorder.ondataavailable = null
+      segment.recorder.stop()
+    }
+    this.release()
+    this.transcriptions.then(() => this.onend?.())
+  }
+
+  private async open() {
+    let stream: MediaStream
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({
+        audio: { echoCancellation: true, noiseSuppression: true },
+      })
+    } catch (error) {
+      robertoLog.error("Microphone unavailable:", error)
+      this.fail("not-allowed")
+      return
+    }
+
+    // Stopped while the permission prompt was open
+    if (!this.running) {
+      stream.getTracks().forEach(track => track.stop())
+      return
+    }
+
+    this.stream = stream
+    const analyser = this.audioContext!.createAnalyser()
+    analyser.fftSize = 1024
+    this.audioContext!.createMediaStreamSource(stream).connect(analyser)
+    this.audioContext!.resume()
+
+    // Loudness of the last few milliseconds of audio
+    const samples = new Float32Array(analyser.fftSize)
+    const readLevel = () => {
+      analyser.getFloatTimeDomainData(samples)
+      return rootMeanSquare(samples)
+    }
+
+    this.onstart?.()
+    this.segment = this.record()
+    this.levelTimer = setInterval(() => this.checkLevel(readLevel()), LEVEL_INTERVAL_MS)
+  }
+
+  private release() {
+    this.stream?.getTracks().forEach(track => track.stop())
+    this.stream = null
+    this.audioContext?.close()
+    this.audioContext = null
+  }
+
+  private fail(error: string) {
+    this.onerror?.({ error })
+    this.abort()
+  }
+
+  private emit() {
+    this.onresult?.({ results: [...this.results] })
+  }
+
+  private record(): Segment {
+    const mimeType = MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type))
+    const recorder = new MediaRecorder(this.stream!, mimeType ? { mimeType } : undefined)
+    const segment: Segment = { recorder, chunks: [], startedAt: Date.now(), slot: null }
+
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) segment.chunks.push(event.data)
+    }
+    recorder.start()
+    return segment
+  }
+
+  // Ends the current recording, queues it for transcription if it had speech,
+  // and starts the next one
+  private cut() {
+    const segment = this.segment
+    this.segment = null
+
+    if (segment) {
+      const { recorder, chunks, slot } = segment
+      const recorded = new Promise<Blob>((resolve) => {
+        recorder.onstop = () => resolve(new Blob(chunks, { type: recorder.mimeType }))
+      })
+      if (recorder.state !== "inactive") recorder.stop()
+
+      if (slot !== null) {
+        const results = this.results
+        this.transcriptions = this.transcriptions
+          .then(() => recorded)
+          .then(audio => this.transcribe(audio, results, slot))
+      }
+    }
+
+    if (this.running && this.stream) this.segment = this.record()
+  }
+
+  private checkLevel(level: number) {
+    const segment = this.segment
+    if (!segment) return
+    const now = Date.now()
+
+    if (level > Math.max(MIN_SPEECH_LEVEL, this.noiseFloor * NOISE_FLOOR_RATIO)) {
+      if (segment.slot === null) {
+        segment.slot = this.results.push(toResult(PENDING_TRANSCRIPT, false)) - 1
+        this.emit()
+      }
+      this.lastSpeechAt = now
+    } else if (segment.slot === null) {
+      this.noiseFloor = this.noiseFloor * 0.95 + level * 0.05
+    }
+
+    if (segment.slot !== null) {
+      if (now - this.lastSpeechAt > UTTERANCE_END_MS || now - segment.startedAt > MAX_UTTERANCE_MS) this.cut()
+    } else if (now - segment.startedAt > IDLE_RESTART_MS) {
+      this.cut()
+    }
+  }
+
+  private async transcribe(audio: Blob, results: RecognitionResult[], slot: number) {
+    let transcript = ""
+    try {
+      const language = encodeURIComponent(this.lang.split("-")[0])
+      const response = await fetchWithSiteToken(`${this.getEndpoint()}?language=${language}`, {
+        method: "POST",
+        headers: { "Content-Type": audio.type || "audio/webm" },
+        body: audio,
+      })
+
+      if (!response.ok) {
+        robertoLog.error("Transcription error:", await response.json().catch(() => ({})))
+        this.fail(response.status === 503 ? "service-not-allowed" : "network")
+      } else {
+        transcript = (await response.json()).text || ""
+      }
+    } catch (error) {
+      robertoLog.error("Transcription failed:", error)
+      this.fail("network")
+    }
+
+    results[slot] = toResult(transcript, true)
+    // A restarted session has its own results; this one has ended
+    if (results === this.results) this.emit()
+  }
+}
@@ -0,0 +1,140 @@
+import { fetchWithSiteToken } from "./robertoApi"
+import { robertoLog } from "./robertoEvents"
+
+/**
+ * Plays replies spoken by the backend (/api/speak) instead of the browser's
+ * speechSynthesis voices.
+ *
+ * Each sentence is requested as soon as it is queued, so the next one is
+ * usually ready by the time the current one finishes, and audio starts
+ * playing while it is still downloading where the browser supports
+ * MediaSource for it. cancel() stops playback and aborts every request.
+ */
+
+export interface PlayOptions {
+  endpoint: string
+  voice?: string
+  // BCP-47 tag, for engines that pick a voice by language
+  language?: string
+  // Speaks the text some other way (the browser's voices) when the server can't
+  fallback: (text: string) => Promise<void>
+}
+
+interface Clip {
+  text: string
+  response: Promise<Response>
+  controller: AbortController
+  options: PlayOptions
+  element: HTMLAudioElement | null
+  done: () => void
+}
+
+// Feeds a streamed response into a MediaSource so playback can begin before the download ends
+const streamInto = (element: HTMLAudioElement, response: Response, type: string, signal: AbortSignal) => {
+  const mediaSource = new MediaSource()
+  element.src = URL.createObjectURL(mediaSource)
+
+  mediaSource.addEventListener("sourceopen", async () => {
+    const buffer = mediaSource.addSourceBuffer(type)
+    const reader = response.body!.getReader()
+    try {
+      while (!signal.aborted) {
+        const { done, value } = await reader.read()
+        if (done) break
+        buffer.appendBuffer(value)
+        await new Promise(resolve => buffer.addEventListener("updateend", resolve, { once: true }))
+      }
+      if (mediaSource.readyState === "open") mediaSource.endOfStream()
+    } catch (error) {
+      if (mediaSource.readyState === "open") mediaSource.endOfStream("network")
+    }
+  }, { once: true })
+}
+
+const canStream = (type: string) =>
+  typeof MediaSource !== "undefined" && MediaSource.isTypeSupported(type)
+
+export class ServerSpeechPlayer {
+  private queue: Clip[] = []
+  private current: Clip | null = null
+
+  // Resolves once the text has been spoken, one way or another, or cancelled
+  play(text: string, options: PlayOptions): Promise<void> {
+    return new Promise((resolve) => {
+      const controller = new AbortController()
+      const response = fetchWithSiteToken(options.endpoint, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ text, voice: options.voice || undefined, language: options.language }),
+        signal: controller.signal,
+      })
+      // Handled when the clip's turn comes
+      response.catch(() => {})
+
+      this.queue.push({ text, response, controller, options, element: null, done: resolve })
+      if (!this.current) this.playNext()
+    })
+  }
+
+  cancel() {
+    const clips = this.current ? [this.current, ...this.queue] : this.queue
+    this.queue = []
+    this.current = null
+
+    for (const clip of clips) {
+      clip.controller.abort()
+      if (clip.element) {
+        clip.element.pause()
+        URL.revokeObjectURL(clip.element.src)
+      }
+      clip.done()
+    }
+  }
+
+  private async playNext() {
+    const clip = this.queue.shift() || null
+    this.current = clip
+    if (!clip) return
+
+    try {
+      await this.playClip(clip)
+    } catch (error) {
+      if (this.current !== clip) return
+      robertoLog.warn("Server speech failed, using the browser's voice:", error)
+      await clip.options.fallback(clip.text)
+    }
+
+    if (this.current !== clip) return
+    clip.done()
+    this.playNext()
+  }
+
+  private async playClip(clip: Clip) {
+    const response = await clip.response
+    if (!response.ok) throw new Error(`Speech API returned status ${response.status}`)
+    if (this.current !== clip) return
+
+    const type = (response.headers.get("Content-Type") || "audio/mpeg").split(";")[0]
+    const element = new Audio()
+    clip.element = element
+
+    if (response.body && canStream(type)) {
+      streamInto(element, response, type, clip.controller.signal)
+    } else {
+      const audio = await response.blob()
+      if (this.current !== clip) return
+      element.src = URL.createObjectURL(audio)
+    }
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        clip.controller.signal.addEventListener("abort", () => resolve(), { once: true })
+        element.onended = () => resolve()
+        element.onerror = () => reject(new Error("Audio playback failed"))
+        element.play().catch(reject)
+      })
+    } finally {
+      URL.revokeObjectURL(element.src)
+    }
+  }
+}
@@ -0,0 +1,47 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { csvHeader, toCsvRows, filterFromQuery } = require('../lib/admin');
+
+const conversation = (content, extra = {}) => ({
+  id: 'conversation-1',
+  personaId: 'roberto',
+  origin: 'https://example.com',
+  language: 'en-US',
+  messages: [{ role: 'user', content, createdAt: '2024-05-31T12:00:00.000Z', ...extra }],
+});
+
+// The content column of the only row
+const contentCell = (csv) => csv.trimEnd().split(',').slice(6, -7).join(',');
+
+test('the CSV header names every column', () => {
+  assert.equal(csvHeader(), 'conversation_id,persona_id,origin,language,created_at,role,content,page_url,' +
+    'latency_ms,first_token_ms,provider,model,tool_calls,error\n');
+});
+
+test('text that starts like a formula is prefixed with an apostrophe', () => {
+  for (const formula of ['=1+1', '+1', '-1', '@SUM(A1)', '\tcmd']) {
+    assert.equal(contentCell(toCsvRows(conversation(formula))), `'${formula}`);
+  }
+});
+
+test('a formula with commas or quotes is escaped and quoted', () => {
+  assert.equal(contentCell(toCsvRows(conversation('=HYPERLINK("http://x", "y")'))),
+    '"\'=HYPERLINK(""http://x"", ""y"")"');
+});
+
+test('numbers are written as they are', () => {
+  const row = toCsvRows(conversation('hello', { latencyMs: -1 }));
+  assert.match(row, /,hello,,-1,/);
+});
+
+test('filterFromQuery reads dates, paging and limits', () => {
+  assert.deepEqual(filterFromQuery({ q: ' price ', to: '2024-05-31', limit: '1000' }).filter, {
+    query: 'price',
+    personaId: undefined,
+    from: undefined,
+    to: '2024-05-31T23:59:59.999Z',
+    limit: 500,
+    offset: 0,
+  });
+  assert.ok(filterFromQuery({ from: 'yesterday' }).error);
+});
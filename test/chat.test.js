@@ -0,0 +1,101 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+
+// The mock provider needs no key or network; nothing is written to disk
+process.env.LLM_PROVIDER = 'mock';
+process.env.STORE_ENGINE = 'off';
+process.env.ALLOWED_ORIGINS = '';
+process.env.SITE_TOKEN_SECRET = '';
+const app = require('../server');
+
+let server;
+let baseUrl;
+
+test.before(async () => {
+  server = app.listen(0);
+  await new Promise(resolve => server.once('listening', resolve));
+  baseUrl = `http://127.0.0.1:${server.address().port}`;
+});
+
+test.after(() => server.close());
+
+const chat = async (body) => {
+  const response = await fetch(`${baseUrl}/api/chat`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  return { status: response.status, body: await response.json() };
+};
+
+const scrollTool = { name: 'scroll_to', description: 'Scroll to a section', parameters: { type: 'object', properties: {} } };
+
+test('a message gets a reply and keeps its conversation', async () => {
+  const first = await chat({ message: 'Hello' });
+  assert.equal(first.status, 200);
+  assert.equal(first.body.response, 'You said: "Hello". This is message 1 of our conversation.');
+
+  const second = await chat({ message: 'Again', conversationId: first.body.conversationId });
+  assert.equal(second.body.response, 'You said: "Again". This is message 2 of our conversation.');
+});
+
+test('tool calls round trip through toolResults', async () => {
+  const conversationId = 'chat-test-tools-1';
+  const call = await chat({ message: '/tool scroll_to {"target":"pricing"}', tools: [scrollTool], conversationId });
+  assert.equal(call.status, 200);
+  assert.equal(call.body.toolCalls.length, 1);
+  const [{ id, name, arguments: args }] = call.body.toolCalls;
+  assert.equal(name, 'scroll_to');
+  assert.deepEqual(args, { target: 'pricing' });
+
+  const result = await chat({ toolResults: [{ id, result: { scrolled: true } }], tools: [scrollTool], conversationId });
+  assert.equal(result.status, 200);
+  assert.equal(result.body.response, 'Done: scroll_to returned {"scrolled":true}.');
+  assert.deepEqual(result.body.toolCalls, []);
+});
+
+test('malformed tool arguments become an empty object', async () => {
+  const { status, body } = await chat({ message: '/tool scroll_to {"target":}', tools: [scrollTool], conversationId: 'chat-test-tools-3' });
+  assert.equal(status, 200);
+  assert.deepEqual(body.toolCalls.map(call => call.arguments), [{}]);
+});
+
+test('results for calls the model never made are rejected', async () => {
+  const { status, body } = await chat({ toolResults: [{ id: 'made_up', result: 'ok' }], conversationId: 'chat-test-tools-2' });
+  assert.equal(status, 400);
+  assert.equal(body.code, 'no_matching_tool_call');
+});
+
+test('a streamed reply arrives as delta events and a done event', async () => {
+  const response = await fetch(`${baseUrl}/api/chat`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ message: 'Stream this', stream: true }),
+  });
+  const events = (await response.text())
+    .split('\n')
+    .filter(line => line.startsWith('data: '))
+    .map(line => JSON.parse(line.slice(6)));
+
+  const text = events.filter(event => event.type === 'delta').map(event => event.text).join('');
+  const done = events.find(event => event.type === 'done');
+  assert.equal(text, 'You said: "Stream this". This is message 1 of our conversation.');
+  assert.equal(done.response, text);
+});
+
+test('a replaced question is added to the next one unless the server stored it', async () => {
+  const merged = await chat({ message: 'and for teams?', unanswered: ['What does it cost'], conversationId: 'chat-test-replaced-1' });
+  assert.equal(merged.body.response, 'You said: "What does it cost and for teams?". This is message 1 of our conversation.');
+
+  // The replaced request finished on the server before it was aborted
+  const conversationId = 'chat-test-replaced-2';
+  await chat({ message: 'What does it cost', conversationId });
+  const next = await chat({ message: 'and for teams?', unanswered: ['What does it cost'], conversationId });
+  assert.equal(next.body.response, 'You said: "and for teams?". This is message 2 of our conversation.');
+});
+
+test('an empty message is refused', async () => {
+  const { status, body } = await chat({});
+  assert.equal(status, 400);
+  assert.equal(body.code, 'message_required');
+});
@@ -0,0 +1,52 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { trimHistory, estimateTokens, unstoredQuestions } = require('../lib/conversations');
+
+const user = (content) => ({ role: 'user', content });
+const assistant = (content) => ({ role: 'assistant', content });
+
+test('trimHistory keeps at most maxMessages, newest last', () => {
+  const messages = [user('1'), assistant('2'), user('3'), assistant('4'), user('5')];
+  assert.deepEqual(trimHistory(messages, 10000, 3), [user('3'), assistant('4'), user('5')]);
+});
+
+test('trimHistory drops the oldest messages until the token budget fits', () => {
+  const long = 'x'.repeat(400);
+  const messages = [user(long), assistant(long), user('short'), assistant('reply')];
+  const budget = estimateTokens('short') + estimateTokens('reply');
+  assert.deepEqual(trimHistory(messages, budget, 20), [user('short'), assistant('reply')]);
+});
+
+test('trimHistory counts tool calls against the budget', () => {
+  const toolCalls = [{ id: 'call_1', name: 'scroll_to', arguments: { target: 'x'.repeat(400) } }];
+  const messages = [user('go'), { role: 'assistant', content: '', toolCalls }, user('thanks')];
+  assert.deepEqual(trimHistory(messages, estimateTokens('go') + estimateTokens('thanks') + 10, 20), [user('thanks')]);
+});
+
+test('trimHistory never starts with an answer or a tool result', () => {
+  const messages = [
+    user('open the FAQ'),
+    { role: 'assistant', content: '', toolCalls: [{ id: 'call_1', name: 'open', arguments: {} }] },
+    { role: 'tool', toolCallId: 'call_1', name: 'open', content: '{}' },
+    assistant('Opened it.'),
+    user('thanks'),
+  ];
+  assert.deepEqual(trimHistory(messages, 10000, 3), [user('thanks')]);
+});
+
+test('trimHistory always keeps the newest message', () => {
+  const huge = user('x'.repeat(10000));
+  assert.deepEqual(trimHistory([user('hi'), huge], 10, 20), [huge]);
+});
+
+test('unstoredQuestions keeps replaced questions the history lacks', () => {
+  assert.deepEqual(unstoredQuestions([user('hi'), assistant('hello')], ['price?']), ['price?']);
+  assert.deepEqual(unstoredQuestions([], ['a', 'b']), ['a', 'b']);
+});
+
+test('unstoredQuestions drops questions a replaced request stored anyway', () => {
+  assert.deepEqual(unstoredQuestions([user('price?'), assistant('10 euros')], ['price?']), []);
+  // The second request stored its question joined with the first
+  assert.deepEqual(unstoredQuestions([user('a b'), assistant('...')], ['a', 'b', 'c']), ['c']);
+  assert.deepEqual(unstoredQuestions([user('a'), assistant('...')], ['a', 'b']), ['b']);
+});
@@ -0,0 +1,21 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { ProviderError } = require('../lib/providers/shared');
+const { providerErrorStatus } = require('../lib/errors');
+
+test('provider failures never reach the widget as a 4xx', () => {
+  const cases = [
+    [400, 502],
+    [401, 502],
+    [404, 502],
+    [500, 502],
+    [429, 503],
+    [503, 503],
+    [529, 503],
+    [408, 504],
+    [504, 504],
+  ];
+  for (const [upstream, expected] of cases) {
+    assert.equal(providerErrorStatus(new ProviderError('OpenAI', upstream, null)), expected, `upstream ${upstream}`);
+  }
+});
@@ -0,0 +1,35 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { createKnowledgeBase } = require('../lib/knowledge');
+
+const documents = [
+  { title: 'Pricing', url: '/pricing', text: 'Our plans start at 10 euros per month. The pro plan adds priority support.' },
+  { title: 'Contact', url: '/contact', text: 'Write to us or call the office. Support answers within a day.' },
+  { title: 'About', url: '/about', text: 'We build voice assistants for websites. Our team works from Lisbon.' },
+];
+
+test('search ranks the passage that matches the question best first', () => {
+  const knowledge = createKnowledgeBase(documents);
+  const results = knowledge.search('how much is the pro plan per month?');
+  assert.equal(results[0].url, '/pricing');
+  assert.ok(results.every((result, i) => i === 0 || result.score <= results[i - 1].score));
+});
+
+test('rare terms outweigh common ones', () => {
+  const knowledge = createKnowledgeBase(documents);
+  // "support" appears in two passages, "lisbon" in one
+  assert.equal(knowledge.search('support lisbon')[0].url, '/about');
+});
+
+test('search leaves out passages without any matching term, and respects the limit', () => {
+  const knowledge = createKnowledgeBase(documents);
+  assert.deepEqual(knowledge.search('kangaroo'), []);
+  assert.equal(knowledge.search('support', 1).length, 1);
+  assert.ok(knowledge.search('support').every(result => result.url !== '/about'));
+});
+
+test('the index counts passages and documents', () => {
+  const knowledge = createKnowledgeBase(documents);
+  assert.equal(knowledge.size, 3);
+  assert.equal(knowledge.documents, 3);
+});
@@ -0,0 +1,119 @@
+import test from "node:test"
+import assert from "node:assert/strict"
+import { parseInline, parseMarkdown, speakableText, splitPauses, takeSentences, toSpeech, SpeechFormatter } from "../robertoFormat"
+
+const text = (value: string) => ({ type: "text", text: value })
+
+test("parseInline", async (t) => {
+  const cases: [string, string, unknown[]][] = [
+    ["bold and italics", "**bold** and _em_", [
+      { type: "strong", children: [text("bold")] }, text(" and "), { type: "em", children: [text("em")] },
+    ]],
+    ["snake_case stays text", "call get_user_name now", [text("call get_user_name now")]],
+    ["code spans are not parsed", "`a *b* c`", [{ type: "code", text: "a *b* c" }]],
+    ["links", "[Pricing](https://example.com/pricing)", [
+      { type: "link", href: "https://example.com/pricing", children: [text("Pricing")] },
+    ]],
+    ["same-site paths", "[FAQ](/faq#shipping)", [{ type: "link", href: "/faq#shipping", children: [text("FAQ")] }]],
+    ["javascript: hrefs are dropped", "[click](javascript:alert(1))", [
+      { type: "link", href: null, children: [text("click")] }, text(")"),
+    ]],
+    ["data: hrefs are dropped", "[x](data:text/html,hi)", [{ type: "link", href: null, children: [text("x")] }]],
+    ["protocol-relative hrefs are dropped", "[x](//evil.com)", [{ type: "link", href: null, children: [text("x")] }]],
+    ["bare URLs stop before sentence punctuation", "See https://example.com/a?b=1.", [
+      text("See "), { type: "link", href: "https://example.com/a?b=1", children: [text("https://example.com/a?b=1")] }, text("."),
+    ]],
+    ["escapes", String.raw`\*not bold\*`, [text("*not bold*")]],
+  ]
+  for (const [name, input, expected] of cases) {
+    await t.test(name, () => assert.deepEqual(parseInline(input), expected))
+  }
+})
+
+test("parseMarkdown", async (t) => {
+  const cases: [string, string, unknown[]][] = [
+    ["headings and paragraphs", "# Title\nFirst line\nsecond line", [
+      { type: "heading", level: 1, children: [text("Title")] },
+      { type: "paragraph", children: [text("First line\nsecond line")] },
+    ]],
+    ["bulleted lists", "- one\n- two", [
+      { type: "list", ordered: false, start: 1, items: [[text("one")], [text("two")]] },
+    ]],
+    ["numbered lists keep their start", "3. three\n4. four", [
+      { type: "list", ordered: true, start: 3, items: [[text("three")], [text("four")]] },
+    ]],
+    ["tables", "| Plan | Price |\n| --- | --- |\n| Pro | 10 |", [
+      { type: "table", header: [[text("Plan")], [text("Price")]], rows: [[[text("Pro")], [text("10")]]] },
+    ]],
+    ["code blocks are kept verbatim", "```js\nconst a = *b*\n```", [
+      { type: "code", language: "js", text: "const a = *b*" },
+    ]],
+    ["quotes and rules", "> said\n\n---", [
+      { type: "quote", children: [text("said")] },
+      { type: "rule" },
+    ]],
+    ["HTML is text", "<script>alert(1)</script>", [
+      { type: "paragraph", children: [text("<script>alert(1)</script>")] },
+    ]],
+  ]
+  for (const [name, input, expected] of cases) {
+    await t.test(name, () => assert.deepEqual(parseMarkdown(input), expected))
+  }
+})
+
+test("speakableText", async (t) => {
+  const cases: [string, string, string, string][] = [
+    ["Markdown is dropped", "en-US", "**Bold** and `code` and ~~gone~~", "Bold and code and gone"],
+    ["links are read as their text", "en-US", "Read [our FAQ](https://example.com/faq).", "Read our FAQ."],
+    ["bare URLs are read as their site", "en-US", "Go to https://www.example.com/pricing?x=1 now", "Go to example.com now"],
+    ["a URL keeps the period after it", "en-US", "See https://www.example.com/pricing?x=1. Dr. Smith agrees.", "See example.com. Dr. Smith agrees."],
+    ["a URL keeps the comma after it", "en-US", "Try https://example.com/a, then call.", "Try example.com, then call."],
+    ["snake_case is kept", "en-US", "Set max_tokens first", "Set max_tokens first"],
+    ["emoji are skipped", "en-US", "Great 🎉!", "Great!"],
+    ["abbreviations are written out", "de-DE", "Zum Beispiel z. B. Äpfel", "Zum Beispiel zum Beispiel Äpfel"],
+    ["number ranges and units", "en-US", "10–20 items, 5k users, 3x faster, #1", "10 to 20 items, 5 thousand users, 3 times faster, number 1"],
+    ["table cells", "en-US", "| Pro | 10 |", "Pro, 10"],
+  ]
+  for (const [name, language, input, expected] of cases) {
+    await t.test(name, () => assert.equal(speakableText(input, language), expected))
+  }
+})
+
+test("takeSentences keeps abbreviations and URLs inside their sentence", () => {
+  assert.deepEqual(takeSentences("See https://example.com/a?x=1. Dr. Smith agrees. And"), {
+    sentences: ["See https://example.com/a?x=1.", "Dr. Smith agrees."],
+    rest: "And",
+  })
+})
+
+test("toSpeech", async (t) => {
+  const options = { language: "en-US", codeNotice: "The code is on your screen." }
+  const cases: [string, string, boolean, string][] = [
+    ["lists are read item by item", "Steps:\n- Open it\n- Close it", false, "Steps: Open it Close it"],
+    ["code blocks become a notice", "Run this:\n```sh\nrm -rf /\n```\nDone.", false, "Run this: The code is on your screen. Done."],
+    ["tables are read row by row", "| Plan | Price |\n|---|---|\n| Pro | 10 |", false, "Plan, Price. Pro, 10."],
+    ["pauses go between blocks", "# Plans\n- Pro\n- Team", true, 'Plans <break time="400ms"/> Pro <break time="400ms"/> Team'],
+    ["pauses go between paragraphs", "One.\n\nTwo.", true, 'One. <break time="400ms"/> Two.'],
+    ["no pauses unless asked", "One.\n\nTwo.", false, "One. Two."],
+  ]
+  for (const [name, input, pauses, expected] of cases) {
+    await t.test(name, () => assert.equal(toSpeech(input, { ...options, pauses }), expected))
+  }
+})
+
+test("a streamed reply is spoken the same as a whole one", () => {
+  const reply = "# Hi\nSee https://www.example.com/pricing?x=1. Dr. Smith agrees.\n\n- One\n- Two"
+  const formatter = new SpeechFormatter({ language: "en-US", pauses: true })
+  const streamed: string[] = []
+  for (let i = 0; i < reply.length; i += 3) streamed.push(...formatter.push(reply.slice(i, i + 3)))
+  streamed.push(...formatter.flush())
+  assert.equal(streamed.join(" "), toSpeech(reply, { language: "en-US", pauses: true }))
+})
+
+test("splitPauses turns break marks into silences", () => {
+  assert.deepEqual(splitPauses('One. <break time="400ms"/> Two. <break time="400ms"/><break time="200ms"/> Three.'), [
+    { text: "One.", pauseBefore: 0 },
+    { text: "Two.", pauseBefore: 400 },
+    { text: "Three.", pauseBefore: 600 },
+  ])
+})
@@ -0,0 +1,16 @@
+import test from "node:test"
+import assert from "node:assert/strict"
+import { createMessage, formatTranscript } from "../robertoTranscript"
+
+const conversation = [createMessage("user", "Hola"), createMessage("assistant", "¡Hola! ¿En qué te ayudo?")]
+
+test("plain text transcripts name the speakers in the conversation's language", () => {
+  const lines = formatTranscript(conversation, "text", "es-ES").split("\n\n")
+  assert.match(lines[0], /^\[.+\] Tú: Hola$/)
+  assert.match(lines[1], /^\[.+\] Roberto: ¡Hola! ¿En qué te ayudo\?$/)
+})
+
+test("plain text transcripts fall back to English", () => {
+  assert.match(formatTranscript(conversation, "text", "nl-NL"), /\] You: Hola/)
+  assert.match(formatTranscript(conversation), /\] You: Hola/)
+})
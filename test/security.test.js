@@ -0,0 +1,75 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+
+// Read when lib/security loads
+process.env.ALLOWED_ORIGINS = 'https://*.framer.app, https://example.com/, https://*.shop.*';
+process.env.SITE_TOKEN_SECRET = 'test-secret';
+process.env.SITE_TOKEN_TTL_MINUTES = '1';
+const security = require('../lib/security');
+
+test('isOriginAllowed matches exact origins and wildcard subdomains', () => {
+  assert.equal(security.isOriginAllowed('https://example.com'), true);
+  assert.equal(security.isOriginAllowed('https://my-site.framer.app'), true);
+  assert.equal(security.isOriginAllowed('https://preview.my-site.framer.app'), true);
+  assert.equal(security.isOriginAllowed('https://framer.app.evil.com'), false);
+  assert.equal(security.isOriginAllowed('http://my-site.framer.app'), false);
+  assert.equal(security.isOriginAllowed('https://evil.com'), false);
+});
+
+test('isOriginAllowed matches every wildcard in an entry', () => {
+  assert.equal(security.isOriginAllowed('https://eu.shop.de'), true);
+  assert.equal(security.isOriginAllowed('https://eu.shop.co.uk'), true);
+  assert.equal(security.isOriginAllowed('https://shop.de'), false);
+  assert.equal(security.isOriginAllowed('https://eu.shopp.de'), false);
+  assert.equal(security.isOriginAllowed('https://eu.shop.de/path'), false);
+});
+
+test('isOriginAllowed lets through requests without an Origin header', () => {
+  assert.equal(security.isOriginAllowed(undefined), true);
+});
+
+test('a rate limiter allows `limit` hits per key and window', (t) => {
+  let now = 1_000_000;
+  t.mock.method(Date, 'now', () => now);
+  const hit = security.createRateLimiter(2, 10_000);
+
+  assert.equal(hit('a').allowed, true);
+  assert.equal(hit('a').allowed, true);
+  assert.deepEqual(hit('a'), { allowed: false, retryAfter: 10 });
+  assert.equal(hit('b').allowed, true);
+
+  now += 10_000;
+  assert.equal(hit('a').allowed, true);
+});
+
+test('a rate limit of 0 never blocks', () => {
+  const hit = security.createRateLimiter(0, 10_000);
+  for (let i = 0; i < 5; i++) assert.equal(hit('a').allowed, true);
+});
+
+test('site tokens verify for the site they were issued to', () => {
+  const { token, expiresIn } = security.createSiteToken('https://example.com');
+  assert.equal(expiresIn, 60);
+
+  const { claims, error } = security.verifySiteToken(token, 'https://example.com');
+  assert.equal(error, undefined);
+  assert.equal(claims.origin, 'https://example.com');
+  assert.equal(security.verifySiteToken(token, 'https://other.com').error, 'token_invalid');
+});
+
+test('tampered or missing site tokens are rejected', () => {
+  const { token } = security.createSiteToken(null);
+  const [payload, signature] = token.split('.');
+  const forged = Buffer.from(JSON.stringify({ sid: 'x', origin: null, exp: Date.now() + 3_600_000 })).toString('base64url');
+
+  assert.equal(security.verifySiteToken(`${forged}.${signature}`).error, 'token_invalid');
+  assert.equal(security.verifySiteToken(payload).error, 'token_required');
+  assert.equal(security.verifySiteToken('').error, 'token_required');
+});
+
+test('site tokens expire after SITE_TOKEN_TTL_MINUTES', (t) => {
+  const { token } = security.createSiteToken(null);
+  const issuedAt = Date.now();
+  t.mock.method(Date, 'now', () => issuedAt + 61_000);
+  assert.equal(security.verifySiteToken(token).error, 'token_expired');
+});
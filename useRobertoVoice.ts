@@ -0,0 +1,1037 @@
+import { useState, useEffect, useRef, useCallback, useReducer, useMemo } from "react"
+import {
+  RobertoTool,
+  ToolCall,
+  ToolResult,
+  createBuiltInTools,
+  runToolCalls,
+  toToolDefinitions,
+} from "./robertoTools"
+import { ServerSpeechRecognition, serverRecognitionSupported } from "./serverRecognition"
+import { ServerSpeechPlayer } from "./serverSpeech"
+import { ApiError, ErrorCategory, errorCategory, fetchWithRetry, fetchWithSiteToken, readApiError } from "./robertoApi"
+import { MessageRole, TranscriptMessage, createMessage } from "./robertoTranscript"
+import { RobertoMessages, format, messagesFor, pickVoice, resolveLanguage } from "./robertoI18n"
+import {
+  PageInfo,
+  PersistenceMode,
+  forgetState,
+  loadState,
+  restoreMessages,
+  saveState,
+  storageKey,
+} from "./robertoStorage"
+import { SpeechFormatter, splitPauses, toSpeech } from "./robertoFormat"
+import { RobertoCallbacks, RobertoEventMap, RobertoEventName, emitRobertoEvent, robertoLog, setDebugLogging } from "./robertoEvents"
+
+/**
+ * Headless voice assistant logic behind the RobertoAI component.
+ *
+ * Use it to build your own UI on top of Roberto's recognition, chat and
+ * speech pipeline:
+ *
+ *   const voice = useRobertoVoice({ apiEndpoint: "https://my-api.com/api/chat" })
+ *   <button onClick={voice.isListening ? voice.stop : voice.start}>{voice.status}</button>
+ */
+
+export type VoiceStatus = "idle" | "listening" | "thinking" | "speaking" | "error"
+
+// How the microphone is used: "hands-free" keeps it on for the whole conversation,
+// "toggle" and "push-to-talk" switch it off after each turn (see start and endTurn)
+export type InteractionMode = "toggle" | "push-to-talk" | "hands-free"
+
+export interface VoiceState {
+  status: VoiceStatus
+  // Whether the microphone is on. It stays on while thinking and speaking
+  // so the visitor can keep talking (see bargeIn).
+  micOn: boolean
+  error: string | null
+}
+
+export type VoiceEvent =
+  | { type: "LISTEN" }                  // microphone turned on
+  | { type: "MUTE" }                    // microphone turned off
+  | { type: "THINK" }                   // a turn was sent, waiting for the reply
+  | { type: "SPEAK" }                   // speech output started
+  | { type: "SETTLE" }                  // reply finished and nothing left to say
+  | { type: "FAIL"; error: string }     // recognition or chat request failed
+  | { type: "RESET" }                   // everything cancelled
+
+export const initialVoiceState: VoiceState = { status: "idle", micOn: false, error: null }
+
+// The state machine. Every status change goes through here so custom UIs can
+// rely on the same transitions as the default one.
+export function voiceReducer(state: VoiceState, event: VoiceEvent): VoiceState {
+  switch (event.type) {
+    case "LISTEN":
+      return {
+        status: state.status === "idle" || state.status === "error" ? "listening" : state.status,
+        micOn: true,
+        error: null,
+      }
+    case "MUTE":
+      return { ...state, status: state.status === "listening" ? "idle" : state.status, micOn: false }
+    case "THINK":
+      return { ...state, status: "thinking", error: null }
+    case "SPEAK":
+      return { ...state, status: "speaking" }
+    case "SETTLE":
+      if (state.status === "error") return state
+      return { ...state, status: state.micOn ? "listening" : "idle" }
+    case "FAIL":
+      return { ...state, status: "error", error: event.error }
+    case "RESET":
+      return initialVoiceState
+  }
+}
+
+// onOpen and onClose belong to whatever UI opens Roberto, so the hook never calls them
+export interface RobertoVoiceOptions extends Omit<RobertoCallbacks, "onOpen" | "onClose"> {
+  apiEndpoint?: string
+  // A persona configured on the server (see personas.example.json); empty uses the server's default
+  personaId?: string
+  // Only used when the server sets ALLOW_CLIENT_SYSTEM_PROMPT=true
+  systemPrompt?: string
+  voiceName?: string
+  // BCP-47 tag such as "es-ES" to listen, speak and reply in, or "auto" for the browser's language
+  language?: string
+  streaming?: boolean
+  bargeIn?: boolean
+  silenceTimeout?: number
+  // "push-to-talk" never ends a turn on silence, only with endTurn()
+  interactionMode?: InteractionMode
+  // Extra page actions the model may call (see robertoTools.ts)
+  tools?: RobertoTool[]
+  // Include the navigate_to, scroll_to and click_element tools
+  builtInTools?: boolean
+  // "browser" uses the Web Speech API, "server" records audio and transcribes it on the backend
+  sttEngine?: "browser" | "server"
+  // "browser" speaks with speechSynthesis, "server" plays audio from the backend and
+  // falls back to the browser's voices if that fails. voiceName then names a server voice.
+  ttsEngine?: "browser" | "server"
+  // Pause briefly between headings, list items and paragraphs when speaking replies
+  speechPauses?: boolean
+  // Milliseconds to wait for the server to start replying, and between streamed chunks; 0 waits forever
+  requestTimeout?: number
+  // Further attempts when the server is busy (429) or failing (5xx)
+  maxRetries?: number
+  // Keep the conversation across page loads in this tab ("session"), this browser ("local") or not at all
+  persist?: PersistenceMode
+  // Forget a kept conversation after this many minutes without activity; 0 keeps it until forget()
+  persistMinutes?: number
+  // Log requests, voices and errors to the console
+  debug?: boolean
+}
+
+// What the server shares about the active persona
+export interface PersonaInfo {
+  id: string
+  name: string
+  greeting: string
+}
+
+// A page from the site's knowledge base that a reply was based on
+export interface KnowledgeSource {
+  title: string
+  url: string
+}
+
+export interface SendOptions {
+  // Read the reply aloud (defaults to true)
+  speak?: boolean
+}
+
+export interface RobertoVoice extends VoiceState {
+  isListening: boolean
+  speechSupported: boolean
+  // The conversation so far, oldest first
+  messages: TranscriptMessage[]
+  // What the visitor is saying, until it is sent as a turn
+  interimText: string
+  // Text and sources of the latest reply (also in messages)
+  responseText: string
+  sources: KnowledgeSource[]
+  // The persona answering, once loaded from the server
+  persona: PersonaInfo | null
+  // The language in use, e.g. "en-US" (see robertoI18n.ts for the UI strings)
+  language: string
+  start: () => void
+  stop: () => void
+  // Turns the microphone off and sends what was said so far, e.g. when a push-to-talk button is let go
+  endTurn: () => void
+  send: (text: string, options?: SendOptions) => Promise<void>
+  cancel: () => void
+  // Empties the transcript and starts a new conversation on the server
+  clear: () => void
+  // Like clear(), and also erases the conversation from storage and from the server's history
+  forget: () => void
+}
+
+// How long after Roberto stops talking the mic may still be picking up its voice
+const ECHO_TAIL_MS = 800
+
+// Stop after this many tool call / follow-up rounds in one turn
+const MAX_TOOL_ROUNDS = 3
+
+// Wait before the first retry of a chat request, doubled for each one after it
+const RETRY_BASE_DELAY_MS = 500
+
+// A request is either something the visitor said or the results of tools Roberto ran
+type ChatTurn = { message: string; unanswered?: string[] } | { toolResults: ToolResult[] }
+
+interface ChatReply {
+  text: string
+  toolCalls: ToolCall[]
+  sources: KnowledgeSource[]
+}
+
+// What Roberto says when the server turns a request down, by error code
+const REJECTION_REPLIES: Record<string, (messages: RobertoMessages) => string> = {
+  message_too_long: (messages) => messages.tooLong,
+  request_too_large: (messages) => messages.tooLong,
+  origin_not_allowed: (messages) => messages.notAvailable,
+  token_required: (messages) => messages.notVerified,
+  token_invalid: (messages) => messages.notVerified,
+  token_expired: (messages) => messages.notVerified,
+  persona_not_found: (messages) => messages.notSetUp,
+}
+
+// And for every other failure, by category
+const CATEGORY_REPLIES: Record<ErrorCategory, (messages: RobertoMessages, error: Error) => string> = {
+  offline: (messages) => messages.offline,
+  rate_limited: (messages, error) =>
+    format(messages.rateLimited, { seconds: (error as ApiError).retryAfter || messages.aFew }),
+  server_error: (messages) => messages.serverError,
+  not_understood: (messages) => messages.notUnderstood,
+}
+
+const apologyFor = (error: Error, messages: RobertoMessages) => {
+  const reply = error instanceof ApiError && REJECTION_REPLIES[error.code]
+  return reply ? reply(messages) : CATEGORY_REPLIES[errorCategory(error)](messages, error)
+}
+
+// Recognition errors that just mean "nothing was heard" rather than a failure
+const BENIGN_RECOGNITION_ERRORS = ["no-speech", "aborted"]
+
+// Generates an ID that lets the backend keep conversation history between turns
+const createConversationId = () => {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+    return crypto.randomUUID()
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`
+}
+
+// Ensure API endpoint has https:// protocol
+const withProtocol = (endpoint: string) =>
+  endpoint.startsWith('http://') || endpoint.startsWith('https://') ? endpoint : 'https://' + endpoint
+
+// The speech routes live next to the chat route, e.g. /api/chat -> /api/transcribe
+const endpointNextTo = (apiEndpoint: string, route: string) =>
+  new URL(`./${route}`, withProtocol(apiEndpoint).replace(/\/+$/, '')).href
+
+// Reads a text/event-stream body and hands each JSON `data:` payload to onEvent
+const readEventStream = async (body: ReadableStream<Uint8Array>, onEvent: (event: any) => void) => {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n')
+
+    let boundary
+    while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+      const rawEvent = buffer.slice(0, boundary)
+      buffer = buffer.slice(boundary + 2)
+
+      const data = rawEvent
+        .split('\n')
+        .filter(line => line.startsWith('data:'))
+        .map(line => line.slice(5).trimStart())
+        .join('\n')
+
+      if (data) onEvent(JSON.parse(data))
+    }
+  }
+}
+
+const toWords = (text: string) =>
+  text.toLowerCase().replace(/[^\p{L}\p{N}\s']/gu, ' ').split(/\s+/).filter(Boolean)
+
+// True when most of what the mic heard is made of words Roberto just said,
+// i.e. the speakers are feeding its own voice back into recognition
+const looksLikeEcho = (heard: string, spoken: string) => {
+  const heardWords = toWords(heard)
+  if (heardWords.length === 0) return true
+  const spokenWords = new Set(toWords(spoken))
+  const overlap = heardWords.filter(word => spokenWords.has(word)).length
+  return overlap / heardWords.length >= 0.6
+}
+
+export function useRobertoVoice({
+  apiEndpoint = "http://localhost:3000/api/chat",
+  personaId = "",
+  systemPrompt,
+  voiceName = "",
+  language = "auto",
+  streaming = true,
+  bargeIn = true,
+  silenceTimeout = 1200,
+  interactionMode = "hands-free",
+  tools = [],
+  builtInTools = true,
+  sttEngine = "browser",
+  ttsEngine = "browser",
+  speechPauses = false,
+  requestTimeout = 20000,
+  maxRetries = 2,
+  persist = "session",
+  persistMinutes = 30,
+  debug = false,
+  ...callbacks
+}: RobertoVoiceOptions = {}): RobertoVoice {
+  const [state, dispatch] = useReducer(voiceReducer, initialVoiceState)
+  const lang = resolveLanguage(language)
+  const strings = useMemo(() => messagesFor(lang), [lang])
+  const [messages, setMessages] = useState<TranscriptMessage[]>([])
+  const [interimText, setInterimText] = useState("")
+  const [persona, setPersona] = useState<PersonaInfo | null>(null)
+  const [speechSupported, setSpeechSupported] = useState(true)
+  const recognitionRef = useRef<any>(null)
+  const recognitionActive = useRef(false)
+  const requestInFlightRef = useRef(false)
+  // Cancels the chat request being answered, and the questions it is answering
+  const abortRef = useRef<AbortController | null>(null)
+  const unansweredRef = useRef<string[]>([])
+  const conversationIdRef = useRef(createConversationId())
+  const lastPageRef = useRef<PageInfo | null>(null)
+  const storeKey = storageKey(personaId)
+  const toolsRef = useRef(tools)
+  toolsRef.current = tools
+  const serverSpeechRef = useRef<ServerSpeechPlayer | null>(null)
+  const speakEndpoint = endpointNextTo(apiEndpoint, "speak")
+
+  // Logging is page-wide; this hook only adds its vote while debug is on
+  const debugOwnerRef = useRef({})
+  useEffect(() => {
+    const owner = debugOwnerRef.current
+    setDebugLogging(debug, owner)
+    return () => setDebugLogging(false, owner)
+  }, [debug])
+
+  // Events fire from handlers created long before the latest render, so read the callbacks from a ref
+  const callbacksRef = useRef(callbacks)
+  callbacksRef.current = callbacks
+  const notify = useCallback(<K extends RobertoEventName>(name: K, detail: RobertoEventMap[K]) => {
+    emitRobertoEvent(name, detail, callbacksRef.current)
+  }, [])
+
+  // Turn-taking state shared between TTS and the recognition handlers
+  const pendingUtterancesRef = useRef(0)
+  const speechGenerationRef = useRef(0)
+  const recentSpeechRef = useRef('')
+  // Parts waiting out a pause hold back everything queued after them
+  const heldBackSpeechRef = useRef({ count: 0, released: Promise.resolve(), lastDone: Promise.resolve() })
+  const speechEndedAtRef = useRef(0)
+  const resultOffsetRef = useRef(0)
+  const muteReplyRef = useRef(false)
+  const pausedForSpeechRef = useRef(false)
+
+  // Final segments heard since the last committed turn, waiting for the silence timeout
+  const pendingTurnRef = useRef('')
+  // Words after them that aren't final yet, sent too when the visitor ends the turn themselves
+  const pendingInterimRef = useRef('')
+  const endingTurnRef = useRef(false)
+  const pendingEndRef = useRef(0)
+  const silenceTimerRef = useRef<ReturnType<typeof setTimeout>>()
+
+  // Adds a message to the transcript and returns its ID
+  const addMessage = useCallback((role: MessageRole, text: string, status?: TranscriptMessage["status"]) => {
+    const message = createMessage(role, text, status)
+    setMessages(prev => [...prev, message])
+    return message.id
+  }, [])
+
+  // Does nothing once the transcript has been cleared
+  const updateMessage = useCallback((id: string, changes: Partial<TranscriptMessage>) => {
+    setMessages(prev => prev.map(message => (message.id === id ? { ...message, ...changes } : message)))
+  }, [])
+
+  const removeMessage = useCallback((id: string) => {
+    setMessages(prev => prev.filter(message => message.id !== id))
+  }, [])
+
+  // Keep the conversation for the next page. Declared before the restore below so
+  // the first, still empty render doesn't overwrite what is stored.
+  const restoredRef = useRef(false)
+  useEffect(() => {
+    if (!restoredRef.current) return
+    saveState(persist, storeKey, messages.length
+      ? { conversationId: conversationIdRef.current, messages, lastPage: lastPageRef.current || undefined }
+      : { conversationId: undefined, messages: undefined, lastPage: undefined })
+  }, [messages, persist, storeKey])
+
+  // Pick up where the visitor left off on the previous page
+  useEffect(() => {
+    const saved = loadState(persist, storeKey, persistMinutes)
+    if (saved?.conversationId) {
+      conversationIdRef.current = saved.conversationId
+      lastPageRef.current = saved.lastPage || null
+      setMessages(restoreMessages(saved.messages))
+    }
+    restoredRef.current = true
+  }, [persist, storeKey, persistMinutes])
+
+  const finishSpeaking = useCallback((interrupted: boolean) => {
+    pendingUtterancesRef.current = 0
+    speechEndedAtRef.current = Date.now()
+    // A streamed reply may still be arriving after the spoken part caught up
+    dispatch({ type: requestInFlightRef.current ? "THINK" : "SETTLE" })
+    notify("speakend", { interrupted })
+  }, [notify])
+
+  // Speaks with one of the browser's voices. Resolves once done, failed or cancelled.
+  const speakInBrowser = useCallback((text: string) => new Promise<void>((resolve) => {
+    if (typeof window === 'undefined' || !('speechSynthesis' in window)) return resolve()
+
+    const utterance = new SpeechSynthesisUtterance(text)
+    utterance.lang = lang
+    utterance.rate = 1
+    utterance.pitch = 1
+    utterance.volume = 1
+
+    // The named voice, or one that speaks the language
+    const voice = pickVoice(window.speechSynthesis.getVoices(), lang, voiceName)
+    if (voice) {
+      utterance.voice = voice
+    }
+
+    utterance.onend = () => resolve()
+    utterance.onerror = () => resolve()
+    window.speechSynthesis.speak(utterance)
+  }), [voiceName, lang])
+
+  // Stops TTS immediately; callbacks from the cancelled utterances are ignored
+  const cancelSpeech = useCallback(() => {
+    if (typeof window === 'undefined') return
+    speechGenerationRef.current += 1
+    serverSpeechRef.current?.cancel()
+    heldBackSpeechRef.current = { count: 0, released: Promise.resolve(), lastDone: Promise.resolve() }
+    if ('speechSynthesis' in window) window.speechSynthesis.cancel()
+    if (pendingUtterancesRef.current > 0) finishSpeaking(true)
+  }, [finishSpeaking])
+
+  // Queue text behind anything already being spoken. <break time="…ms"/> marks
+  // (see robertoFormat.ts) wait for what came before to finish, then stay silent that long.
+  const queueSpeech = useCallback((text: string) => {
+    if (typeof window === 'undefined') return
+    const onServer = ttsEngine === "server"
+    if (!onServer && !('speechSynthesis' in window)) return
+
+    const say = (part: string) => {
+      if (!onServer) return speakInBrowser(part)
+      if (!serverSpeechRef.current) serverSpeechRef.current = new ServerSpeechPlayer()
+      return serverSpeechRef.current
+        .play(part, { endpoint: speakEndpoint, voice: voiceName, language: lang, fallback: speakInBrowser })
+    }
+
+    for (const { text: part, pauseBefore } of splitPauses(text)) {
+      // Track what is being said so recognition can tell Roberto's voice from the visitor's
+      const generation = speechGenerationRef.current
+      const onDone = () => {
+        if (generation !== speechGenerationRef.current) return
+        pendingUtterancesRef.current -= 1
+        if (pendingUtterancesRef.current <= 0) finishSpeaking(false)
+      }
+
+      if (pendingUtterancesRef.current === 0) {
+        recentSpeechRef.current = ''
+        dispatch({ type: "SPEAK" })
+        notify("speakstart", {})
+      }
+      recentSpeechRef.current += ` ${part}`
+      pendingUtterancesRef.current += 1
+
+      const queue = heldBackSpeechRef.current
+      let done: Promise<void>
+      if (!pauseBefore && queue.count === 0) {
+        done = say(part)
+      } else {
+        queue.count += 1
+        const gate = pauseBefore
+          ? queue.lastDone.then(() => new Promise<void>(resolve => setTimeout(resolve, pauseBefore)))
+          : queue.released
+        let spoken = Promise.resolve()
+        queue.released = gate.then(() => {
+          if (generation !== speechGenerationRef.current) return
+          queue.count -= 1
+          spoken = say(part)
+        })
+        done = queue.released.then(() => spoken)
+      }
+      queue.lastDone = done
+      done.then(onDone)
+    }
+  }, [ttsEngine, speakEndpoint, voiceName, lang, speakInBrowser, finishSpeaking, notify])
+
+  // Speaks text, replacing anything being said
+  const speakResponse = useCallback((text: string) => {
+    // Cancel any ongoing speech
+    cancelSpeech()
+    queueSpeech(text)
+  }, [cancelSpeech, queueSpeech])
+
+  // Function to get AI response from backend
+  // When onDelta is given the reply is streamed and each chunk is passed to it
+  const getAIResponse = useCallback(async (
+    turn: ChatTurn,
+    tools: RobertoTool[],
+    signal: AbortSignal,
+    onDelta?: (delta: string) => void
+  ): Promise<ChatReply> => {
+    const endpoint = withProtocol(apiEndpoint)
+
+    // Give up when the server goes quiet for requestTimeout, before replying or mid-stream
+    const controller = new AbortController()
+    const onCancel = () => controller.abort()
+    signal.addEventListener('abort', onCancel)
+    let timedOut = false
+    let timer: ReturnType<typeof setTimeout> | undefined
+    const restartTimer = () => {
+      clearTimeout(timer)
+      if (requestTimeout > 0) {
+        timer = setTimeout(() => {
+          timedOut = true
+          controller.abort()
+        }, requestTimeout)
+      }
+    }
+
+    robertoLog.info('Calling API endpoint:', endpoint)
+
+    // A reply to a conversation that was cleared meanwhile must not bring its ID back
+    const conversationId = conversationIdRef.current
+    const keepConversationId = (id?: string) => {
+      if (id && conversationIdRef.current === conversationId) conversationIdRef.current = id
+    }
+
+    // Tell the model when the visitor has moved on from the page of the last turn
+    const page: PageInfo = { title: document.title, url: window.location.href }
+    const previousPage = lastPageRef.current?.url !== page.url ? lastPageRef.current : null
+    lastPageRef.current = page
+
+    try {
+      restartTimer()
+      const response = await fetchWithRetry(endpoint, {
+        method: 'POST',
+        signal: controller.signal,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          ...turn,
+          personaId: personaId || undefined,
+          systemPrompt: systemPrompt || undefined,
+          // Filled into the persona's {{page.title}}, {{page.url}}, {{previousPage.title}},
+          // {{previousPage.url}} and {{locale}} on the server
+          context: {
+            pageTitle: page.title,
+            pageUrl: page.url,
+            previousPageTitle: previousPage?.title,
+            previousPageUrl: previousPage?.url,
+            locale: lang,
+          },
+          conversationId,
+          tools: toToolDefinitions(tools),
+          stream: Boolean(onDelta),
+        }),
+      }, { retries: maxRetries, baseDelay: RETRY_BASE_DELAY_MS })
+
+      if (!response.ok) {
+        throw await readApiError(response)
+      }
+
+      const contentType = response.headers.get('Content-Type') || ''
+      if (onDelta && response.body && contentType.includes('text/event-stream')) {
+        let reply: ChatReply = { text: '', toolCalls: [], sources: [] }
+        await readEventStream(response.body, (event) => {
+          restartTimer()
+          if (event.type === 'delta') {
+            onDelta(event.text)
+          } else if (event.type === 'done') {
+            reply = { text: event.response || '', toolCalls: event.toolCalls || [], sources: event.sources || [] }
+            keepConversationId(event.conversationId)
+          } else if (event.type === 'error') {
+            throw new ApiError(event.error, response.status, event.code || 'provider_error')
+          }
+        })
+        return reply
+      }
+
+      const data = await response.json()
+      keepConversationId(data.conversationId)
+      const toolCalls: ToolCall[] = data.toolCalls || []
+      return {
+        text: data.response || (toolCalls.length ? '' : strings.noReply),
+        toolCalls,
+        sources: data.sources || [],
+      }
+    } catch (error) {
+      if (timedOut) throw new ApiError(`No reply within ${requestTimeout / 1000} seconds`, 0, 'timeout')
+      throw error
+    } finally {
+      clearTimeout(timer)
+      signal.removeEventListener('abort', onCancel)
+    }
+  }, [apiEndpoint, personaId, systemPrompt, lang, strings, requestTimeout, maxRetries])
+
+  // Sends one user turn through the chat pipeline, then shows and optionally speaks the reply
+  const respond = useCallback(async (text: string, speak: boolean): Promise<void> => {
+    const speechOptions = { language: lang, codeNotice: strings.codeOnScreen, pauses: speechPauses }
+    if (!text.trim()) return
+    let unanswered: string[] = []
+    if (abortRef.current) {
+      // A new question while Roberto is still answering replaces that answer. The earlier
+      // questions go along with it; the server adds those it hasn't stored already.
+      unanswered = unansweredRef.current
+      abortRef.current.abort()
+      cancelSpeech()
+    }
+    const controller = new AbortController()
+    abortRef.current = controller
+    unansweredRef.current = [...unanswered, text]
+    requestInFlightRef.current = true
+    muteReplyRef.current = false
+    dispatch({ type: "THINK" })
+
+    // One assistant message collects the text of every round in this turn
+    const replyId = addMessage('assistant', '', 'pending')
+    let replyText = ''
+    let replySources: KnowledgeSource[] = []
+
+    // Custom tools win over built-in ones with the same name
+    const customTools = toolsRef.current
+    const availableTools = [
+      ...(builtInTools ? createBuiltInTools() : []).filter(t => !customTools.some(c => c.name === t.name)),
+      ...customTools,
+    ]
+
+    try {
+      let turn: ChatTurn = { message: text, unanswered: unanswered.length ? unanswered : undefined }
+
+      // Each round is one model reply; tool calls are run here and their results sent back
+      for (let round = 0; ; round++) {
+        let streamed = false
+        const speech = new SpeechFormatter(speechOptions)
+
+        // Show tokens as they arrive and speak each sentence as soon as it completes
+        const onDelta = (delta: string) => {
+          if (!streamed) {
+            streamed = true
+            if (speak && round === 0) cancelSpeech()
+            if (replyText) replyText += '\n\n'
+          }
+          replyText += delta
+          updateMessage(replyId, { text: replyText })
+
+          if (speak && !muteReplyRef.current) speech.push(delta).forEach(queueSpeech)
+        }
+
+        const reply = await getAIResponse(turn, availableTools, controller.signal, streaming ? onDelta : undefined)
+        const moreRounds = reply.toolCalls.length > 0 && round < MAX_TOOL_ROUNDS
+        if (!moreRounds) requestInFlightRef.current = false
+        if (reply.sources.length) replySources = reply.sources
+
+        if (streamed) {
+          if (speak && !muteReplyRef.current) speech.flush().forEach(queueSpeech)
+        } else if (reply.text) {
+          replyText = replyText ? `${replyText}\n\n${reply.text}` : reply.text
+          updateMessage(replyId, { text: replyText })
+          // Speak the AI response, after anything said earlier in this turn
+          if (speak && !muteReplyRef.current) {
+            if (round === 0) speakResponse(toSpeech(reply.text, speechOptions))
+            else queueSpeech(toSpeech(reply.text, speechOptions))
+          }
+        }
+
+        if (!moreRounds) break
+
+        const { results, followUp } = await runToolCalls(reply.toolCalls, availableTools)
+        if (!followUp || controller.signal.aborted) break
+        turn = { toolResults: results }
+      }
+
+      // A turn that only ran tools has nothing to show
+      if (replyText) {
+        updateMessage(replyId, { text: replyText, status: 'done', sources: replySources })
+        notify("response", { text: replyText, sources: replySources, conversationId: conversationIdRef.current })
+      } else {
+        removeMessage(replyId)
+      }
+    } catch (error) {
+      if (controller.signal.aborted) {
+        // Cancelled or replaced by a newer question: keep what was already said, nothing to apologise for
+        if (replyText) updateMessage(replyId, { text: replyText, status: 'done', sources: replySources })
+        else removeMessage(replyId)
+        return
+      }
+
+      robertoLog.error('Error getting AI response:', error)
+      requestInFlightRef.current = false
+      dispatch({ type: "FAIL", error: (error as Error).message })
+      notify("error", {
+        message: (error as Error).message,
+        code: error instanceof ApiError ? error.code : 'client_error',
+        category: errorCategory(error),
+        source: 'chat',
+      })
+
+      const apology = apologyFor(error as Error, strings)
+      updateMessage(replyId, {
+        text: replyText ? `${replyText}\n\n${apology}` : apology,
+        status: 'error',
+        error: (error as Error).message,
+        sources: replySources,
+      })
+      if (speak && !muteReplyRef.current) speakResponse(apology)
+    } finally {
+      // A newer question owns the request state now
+      if (abortRef.current === controller) {
+        abortRef.current = null
+        requestInFlightRef.current = false
+        if (pendingUtterancesRef.current === 0) dispatch({ type: "SETTLE" })
+      }
+    }
+  }, [getAIResponse, speakResponse, queueSpeech, cancelSpeech, addMessage, updateMessage, removeMessage, notify, streaming, builtInTools, strings, lang, speechPauses])
+
+  // Sends the pending recognised segments as one turn and moves past them
+  const commitTurn = useCallback(() => {
+    clearTimeout(silenceTimerRef.current)
+    silenceTimerRef.current = undefined
+    const text = pendingTurnRef.current.trim()
+    pendingTurnRef.current = ''
+    pendingInterimRef.current = ''
+    resultOffsetRef.current = pendingEndRef.current
+    setInterimText('')
+    if (!text) return
+
+    // Toggle and push-to-talk take one turn at a time
+    if (interactionMode !== "hands-free" && recognitionActive.current) {
+      recognitionActive.current = false
+      recognitionRef.current?.abort()
+      dispatch({ type: "MUTE" })
+    }
+    addMessage('user', text)
+    notify("transcript", { text, source: 'voice', conversationId: conversationIdRef.current })
+    respond(text, true)
+  }, [respond, addMessage, notify, interactionMode])
+
+  const discardPendingTurn = useCallback(() => {
+    clearTimeout(silenceTimerRef.current)
+    silenceTimerRef.current = undefined
+    pendingTurnRef.current = ''
+    pendingInterimRef.current = ''
+    setInterimText('')
+  }, [])
+
+  // The recognition handlers are created once; they read the latest callbacks and options from here
+  const transcribeEndpoint = endpointNextTo(apiEndpoint, "transcribe")
+  const latestRef = useRef({ commitTurn, cancelSpeech, bargeIn, silenceTimeout, interactionMode, transcribeEndpoint, lang })
+  latestRef.current = { commitTurn, cancelSpeech, bargeIn, silenceTimeout, interactionMode, transcribeEndpoint, lang }
+
+  // Initialize speech recognition
+  useEffect(() => {
+    if (typeof window !== 'undefined') {
+      const SpeechRecognition = sttEngine === "server"
+        ? (serverRecognitionSupported() ? ServerSpeechRecognition : null)
+        // @ts-ignore
+        : window.SpeechRecognition || window.webkitSpeechRecognition
+      setSpeechSupported(Boolean(SpeechRecognition))
+
+      if (SpeechRecognition) {
+        const recognition = new SpeechRecognition(() => latestRef.current.transcribeEndpoint)
+        recognition.continuous = true
+        recognition.interimResults = true
+        recognition.lang = latestRef.current.lang
+
+        recognition.onstart = () => {
+          resultOffsetRef.current = 0
+          pendingEndRef.current = 0
+        }
+
+        recognition.onend = () => {
+          if (!recognitionActive.current) {
+            if (endingTurnRef.current) {
+              // The visitor ended the turn (endTurn), so send everything heard by now
+              endingTurnRef.current = false
+              pendingTurnRef.current += pendingInterimRef.current
+              latestRef.current.commitTurn()
+            } else {
+              // Drop a half-finished turn when the visitor switched the mic off
+              discardPendingTurn()
+            }
+            return
+          }
+
+          // Don't lose a finished sentence when the browser ends the session early
+          if (pendingTurnRef.current) latestRef.current.commitTurn()
+
+          // Browsers end "continuous" sessions after a while; keep listening until stop()
+          if (!pausedForSpeechRef.current) {
+            try {
+              recognition.start()
+            } catch (error) {
+              // Already restarting
+            }
+          }
+        }
+
+        recognition.onresult = (event: any) => {
+          const { commitTurn, cancelSpeech, bargeIn, silenceTimeout, interactionMode } = latestRef.current
+
+          // Only results after the last committed turn belong to the current utterance.
+          // Final results always come before interim ones in the list.
+          let committed = ''
+          let interim = ''
+          let finalEnd = resultOffsetRef.current
+          for (let i = resultOffsetRef.current; i < event.results.length; i++) {
+            const result = event.results[i]
+            if (result.isFinal) {
+              committed += result[0].transcript
+              finalEnd = i + 1
+            } else {
+              interim += result[0].transcript
+            }
+          }
+          const transcript = committed + interim
+
+          const speaking = pendingUtterancesRef.current > 0
+          if (speaking || Date.now() - speechEndedAtRef.current < ECHO_TAIL_MS) {
+            const echo = looksLikeEcho(transcript, recentSpeechRef.current)
+            // Short interim fragments are too ambiguous to interrupt on
+            const interrupting = speaking && bargeIn && !echo &&
+              (committed.trim() !== '' || toWords(transcript).length >= 2)
+
+            if (interrupting) {
+              // The visitor is talking over Roberto: stop speaking and take their turn
+              cancelSpeech()
+              muteReplyRef.current = true
+            } else if (echo || speaking) {
+              // Drop what the mic heard while Roberto was talking
+              resultOffsetRef.current = finalEnd
+              setInterimText('')
+              return
+            }
+          }
+
+          pendingTurnRef.current = committed
+          pendingInterimRef.current = interim
+          pendingEndRef.current = finalEnd
+          setInterimText(transcript.trim())
+
+          // End the turn once the visitor has been quiet for silenceTimeout.
+          // While interim text is showing they are still mid-sentence, and
+          // with push-to-talk the turn lasts as long as they hold.
+          clearTimeout(silenceTimerRef.current)
+          if (committed.trim() && !interim && interactionMode !== "push-to-talk") {
+            silenceTimerRef.current = setTimeout(commitTurn, silenceTimeout)
+          }
+        }
+
+        recognition.onerror = (event: any) => {
+          if (BENIGN_RECOGNITION_ERRORS.includes(event.error)) return
+          robertoLog.error('Speech recognition error', event.error)
+          recognitionActive.current = false
+          dispatch({ type: "FAIL", error: event.error })
+          dispatch({ type: "MUTE" })
+          notify("error", { message: event.message || event.error, code: event.error, source: 'recognition' })
+        }
+
+        recognitionRef.current = recognition
+      }
+
+      // Load available voices
+      if ('speechSynthesis' in window) {
+        window.speechSynthesis.onvoiceschanged = () => {
+          const voices = window.speechSynthesis.getVoices()
+          robertoLog.info('Available voices:', voices.map(v => v.name))
+        }
+      }
+    }
+
+    return () => {
+      clearTimeout(silenceTimerRef.current)
+      if (recognitionRef.current) {
+        recognitionRef.current.onend = null
+        recognitionRef.current.abort()
+        recognitionRef.current = null
+      }
+      // Switching engines turns the microphone off
+      if (recognitionActive.current) {
+        recognitionActive.current = false
+        dispatch({ type: "MUTE" })
+      }
+    }
+  }, [discardPendingTurn, notify, sttEngine])
+
+  // A new language applies from the next time the microphone starts
+  useEffect(() => {
+    if (recognitionRef.current) recognitionRef.current.lang = lang
+  }, [lang])
+
+  // Don't keep playing server speech after the component goes away
+  useEffect(() => () => serverSpeechRef.current?.cancel(), [])
+
+  // Load the persona's name and greeting (public, so no site token needed)
+  const personaEndpoint = endpointNextTo(apiEndpoint, personaId ? `personas/${encodeURIComponent(personaId)}` : "personas")
+  useEffect(() => {
+    let cancelled = false
+    fetch(personaEndpoint, { mode: "cors", credentials: "omit" })
+      .then(async (response) => {
+        if (!response.ok) throw await readApiError(response)
+        const info: PersonaInfo = await response.json()
+        if (!cancelled) setPersona(info)
+      })
+      .catch((error) => {
+        robertoLog.warn("Could not load persona:", error)
+        if (!cancelled) setPersona(null)
+      })
+    return () => { cancelled = true }
+  }, [personaEndpoint])
+
+  // Without barge-in, pause recognition while Roberto talks so it never hears itself
+  const isSpeaking = state.status === "speaking"
+  useEffect(() => {
+    const recognition = recognitionRef.current
+    if (bargeIn || !recognition || !recognitionActive.current) return
+
+    try {
+      if (isSpeaking) {
+        pausedForSpeechRef.current = true
+        recognition.abort()
+      } else if (pausedForSpeechRef.current) {
+        pausedForSpeechRef.current = false
+        recognition.start()
+      }
+    } catch (error) {
+      // start() throws if recognition is already running
+    }
+  }, [isSpeaking, bargeIn])
+
+  // Turns the microphone on. Outside hands-free mode this also interrupts Roberto,
+  // since the mic is off while it talks and barge-in can't.
+  const start = useCallback(() => {
+    const recognition = recognitionRef.current
+    if (!recognition || recognitionActive.current) return
+
+    if (interactionMode !== "hands-free" && (pendingUtterancesRef.current > 0 || requestInFlightRef.current)) {
+      muteReplyRef.current = true
+      cancelSpeech()
+    }
+    setInterimText("")
+    endingTurnRef.current = false
+    recognitionActive.current = true
+    try {
+      recognition.start()
+    } catch (error) {
+      // Already running
+    }
+    dispatch({ type: "LISTEN" })
+  }, [interactionMode, cancelSpeech])
+
+  // Turns the microphone off. A reply that is already on its way still finishes.
+  const stop = useCallback(() => {
+    if (recognitionActive.current && recognitionRef.current) {
+      recognitionActive.current = false
+      recognitionRef.current.abort()
+    }
+    endingTurnRef.current = false
+    discardPendingTurn()
+    dispatch({ type: "MUTE" })
+  }, [discardPendingTurn])
+
+  // Turns the microphone off and sends the turn once recognition has caught up (see onend)
+  const endTurn = useCallback(() => {
+    const recognition = recognitionRef.current
+    if (!recognition || !recognitionActive.current) return
+    recognitionActive.current = false
+    endingTurnRef.current = true
+    recognition.stop()
+    dispatch({ type: "MUTE" })
+  }, [])
+
+  // Sends typed (or otherwise obtained) text as a turn
+  const send = useCallback((text: string, { speak = true }: SendOptions = {}) => {
+    const trimmed = text.trim()
+    if (!trimmed) return Promise.resolve()
+    addMessage('user', trimmed)
+    notify("transcript", { text: trimmed, source: 'text', conversationId: conversationIdRef.current })
+    return respond(trimmed, speak)
+  }, [respond, addMessage, notify])
+
+  // Aborts the chat request in flight, if any
+  const abortReply = useCallback(() => {
+    muteReplyRef.current = true
+    if (!abortRef.current) return
+    abortRef.current.abort()
+    abortRef.current = null
+    requestInFlightRef.current = false
+    dispatch({ type: "SETTLE" })
+  }, [])
+
+  // Stops everything: microphone, the request in flight and speech, including the rest of the current reply
+  const cancel = useCallback(() => {
+    stop()
+    abortReply()
+    cancelSpeech()
+    dispatch({ type: "RESET" })
+  }, [stop, abortReply, cancelSpeech])
+
+  // Forgets the conversation. The microphone stays as it is; a reply on its way is dropped.
+  const clear = useCallback(() => {
+    abortReply()
+    cancelSpeech()
+    setMessages([])
+    conversationIdRef.current = createConversationId()
+    lastPageRef.current = null
+  }, [abortReply, cancelSpeech])
+
+  // Forgets the visitor: the conversation on screen, in storage and in the server's history
+  const forget = useCallback(() => {
+    const conversationId = conversationIdRef.current
+    clear()
+    forgetState(storeKey)
+
+    fetchWithSiteToken(endpointNextTo(apiEndpoint, "forget"), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ conversationId }),
+    })
+      .then(async (response) => {
+        if (!response.ok) throw await readApiError(response)
+      })
+      .catch((error) => robertoLog.warn("Could not delete the conversation on the server:", error))
+  }, [clear, storeKey, apiEndpoint])
+
+  const latestReply = [...messages].reverse().find(message => message.role === 'assistant')
+
+  return {
+    ...state,
+    isListening: state.micOn,
+    speechSupported,
+    messages,
+    interimText,
+    responseText: latestReply?.text || '',
+    sources: latestReply?.sources || [],
+    persona,
+    language: lang,
+    start,
+    stop,
+    endTurn,
+    send,
+    cancel,
+    clear,
+    forget,
+  }
+}